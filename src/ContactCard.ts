@@ -0,0 +1,181 @@
+/**
+ * Contact Card Builder
+ * Builds the contact objects sent in contacts messages
+ */
+
+import { readFile } from 'fs/promises';
+import type { SharedContact } from './types';
+import type { VCardVersion } from './utils/vcard';
+import { contactToVCard, parseVCard } from './utils/vcard';
+
+type ContactName = SharedContact['name'];
+type ContactAddress = NonNullable<SharedContact['addresses']>[number];
+type ContactOrg = NonNullable<SharedContact['org']>;
+
+/**
+ * Contact Card
+ * WhatsApp requires a formatted name and at least one other name part;
+ * when no part is set, the formatted name is used as first name.
+ *
+ * @example
+ * ```typescript
+ * const agent = new ContactCard('Ana Silva', { first_name: 'Ana', last_name: 'Silva' })
+ *   .addPhone('+1 555 010 2000', { type: 'WORK', waId: '15550102000' })
+ *   .addEmail('ana@example.com', 'WORK')
+ *   .setOrg('Example Inc.', { title: 'Support' });
+ *
+ * await client.sendContacts('1234567890', [agent]);
+ *
+ * // Or load cards from a .vcf file
+ * const branches = await ContactCard.fromFile('./branches.vcf');
+ * ```
+ */
+export class ContactCard {
+  public contact: SharedContact;
+
+  /**
+   * Creates a new contact card
+   * @param formattedName - Full name as displayed
+   * @param name - Name parts (first, last, middle name, prefix, suffix)
+   */
+  constructor(
+    formattedName: string,
+    name: Omit<ContactName, 'formatted_name'> = {}
+  ) {
+    if (!formattedName.trim()) {
+      throw new Error('Contact formatted name is required');
+    }
+
+    this.contact = { name: { formatted_name: formattedName, ...name } };
+  }
+
+  /**
+   * Create a card from a contact object
+   */
+  static from(contact: SharedContact): ContactCard {
+    const { formatted_name, ...name } = contact.name;
+    const card = new ContactCard(formatted_name, name);
+    card.contact = { ...contact, name: card.contact.name };
+    return card;
+  }
+
+  /**
+   * Create cards from vCard text
+   * @param text - vCard 2.1, 3.0 or 4.0 content, possibly holding several cards
+   */
+  static fromVCard(text: string): ContactCard[] {
+    return parseVCard(text).map((contact) => ContactCard.from(contact));
+  }
+
+  /**
+   * Create cards from a .vcf file
+   * @throws Error if the file cannot be read or a card has no name
+   */
+  static async fromFile(filePath: string): Promise<ContactCard[]> {
+    return ContactCard.fromVCard(await readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Set name parts
+   */
+  setName(name: Omit<ContactName, 'formatted_name'>): this {
+    this.contact.name = { ...this.contact.name, ...name };
+    return this;
+  }
+
+  /**
+   * Add a phone number
+   * @param phone - Phone number as displayed
+   * @param options - Type (CELL, MAIN, IPHONE, HOME, WORK) and WhatsApp id,
+   * which makes the card show a "Message" button
+   */
+  addPhone(
+    phone: string,
+    options: { type?: string; waId?: string } = {}
+  ): this {
+    (this.contact.phones = this.contact.phones || []).push({
+      phone,
+      ...(options.type && { type: options.type }),
+      ...(options.waId && { wa_id: options.waId }),
+    });
+    return this;
+  }
+
+  /**
+   * Add an email address
+   * @param type - HOME or WORK
+   */
+  addEmail(email: string, type?: string): this {
+    (this.contact.emails = this.contact.emails || []).push({
+      email,
+      ...(type && { type }),
+    });
+    return this;
+  }
+
+  /**
+   * Add a postal address
+   */
+  addAddress(address: ContactAddress): this {
+    (this.contact.addresses = this.contact.addresses || []).push(address);
+    return this;
+  }
+
+  /**
+   * Set the organization
+   */
+  setOrg(company: string, options: Omit<ContactOrg, 'company'> = {}): this {
+    this.contact.org = { company, ...options };
+    return this;
+  }
+
+  /**
+   * Set the birthday
+   * @param birthday - Date or YYYY-MM-DD string
+   * @throws Error if the string is not in YYYY-MM-DD format
+   */
+  setBirthday(birthday: string | Date): this {
+    if (birthday instanceof Date) {
+      birthday = birthday.toISOString().slice(0, 10);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(birthday)) {
+      throw new Error('Birthday must be in YYYY-MM-DD format');
+    }
+
+    this.contact.birthday = birthday;
+    return this;
+  }
+
+  /**
+   * Add a website
+   * @param type - HOME or WORK
+   */
+  addUrl(url: string, type?: string): this {
+    (this.contact.urls = this.contact.urls || []).push({
+      url,
+      ...(type && { type }),
+    });
+    return this;
+  }
+
+  /**
+   * Get the contact object sent to the API
+   */
+  toJSON(): SharedContact {
+    const { formatted_name, ...parts } = this.contact.name;
+    const hasPart = Object.values(parts).some(Boolean);
+
+    return {
+      ...this.contact,
+      name: hasPart
+        ? this.contact.name
+        : { ...this.contact.name, first_name: formatted_name },
+    };
+  }
+
+  /**
+   * Export the card as vCard text
+   */
+  toVCard(version: VCardVersion = '3.0'): string {
+    return contactToVCard(this.contact, version);
+  }
+}
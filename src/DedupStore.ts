@@ -0,0 +1,80 @@
+/**
+ * Deduplication Stores
+ * Remember processed webhook events so retried deliveries are skipped
+ */
+
+import { TtlMap } from './utils/ttlMap';
+
+/**
+ * Store used by the dispatcher to detect duplicate webhook events
+ * Implement this interface to share deduplication state through a database.
+ *
+ * @example
+ * ```typescript
+ * const store: DedupStore = {
+ *   async checkAndSet(key) {
+ *     const inserted = await db.insertIgnore('processed_events', { key });
+ *     return !inserted;
+ *   },
+ * };
+ * ```
+ */
+export interface DedupStore {
+  /**
+   * Record a key
+   * @param key - Event key, e.g. 'message:<id>' or 'status:<id>:<status>'
+   * @returns true if the key had already been recorded
+   */
+  checkAndSet(key: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store options
+ */
+export interface MemoryDedupStoreOptions {
+  ttl?: number;
+  maxSize?: number;
+}
+
+/**
+ * In-memory Deduplication Store
+ * Keeps keys for a limited time (default 24 hours) and evicts the oldest keys
+ * once the size limit (default 10000) is reached.
+ */
+export class MemoryDedupStore implements DedupStore {
+  private keys: TtlMap<true>;
+
+  /**
+   * Creates a new in-memory store
+   * @param options - Time to live in milliseconds and maximum number of keys
+   */
+  constructor(options: MemoryDedupStoreOptions = {}) {
+    this.keys = new TtlMap(
+      options.ttl ?? 24 * 60 * 60 * 1000,
+      options.maxSize ?? 10000
+    );
+  }
+
+  async checkAndSet(key: string): Promise<boolean> {
+    if (this.keys.has(key)) {
+      return true;
+    }
+
+    this.keys.set(key, true);
+    return false;
+  }
+
+  /**
+   * Number of keys currently stored
+   */
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Remove every key
+   */
+  clear(): void {
+    this.keys.clear();
+  }
+}
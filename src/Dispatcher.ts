@@ -3,106 +3,344 @@
  * Routes incoming messages to appropriate handlers
  */
 
-import type { WebhookPayload, WebhookValue, NextStepConfig } from './types';
+import type {
+  WebhookPayload,
+  WebhookValue,
+  WhatsAppMessage,
+  MessageStatus,
+  NextStepConfig,
+  QueueStatus,
+  ErrorHandlerFunction,
+} from './types';
 import { Update } from './Update';
 import { UserContext } from './UserContext';
-import type { UpdateHandler } from './Handlers';
-import { MessageHandler } from './Handlers';
+import type { UpdateHandler, AnyHandler } from './Handlers';
+import { MessageHandler, StatusHandler, WebhookFieldHandler } from './Handlers';
+import type { DedupStore } from './DedupStore';
 import { keysExist } from './utils/helpers';
 
+// Queue key prefix of account level webhook fields
+const FIELD_KEY_PREFIX = 'field:';
+
+/**
+ * Task waiting in a keyed queue
+ */
+interface QueuedTask {
+  run: () => Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
 /**
- * Async Queue for processing updates
+ * Keyed Async Queue for processing updates
+ * Tasks sharing a key run one at a time in arrival order, while tasks for
+ * different keys run in parallel up to the concurrency limit.
  */
-class AsyncQueue<T> {
-  private queue: T[] = [];
-  private processing = false;
-
-  async enqueue(item: T, processor: (item: T) => Promise<void>): Promise<void> {
-    this.queue.push(item);
-    if (!this.processing) {
-      await this.processQueue(processor);
+class KeyedQueue {
+  private queues: Map<string, QueuedTask[]> = new Map();
+  private active: Set<string> = new Set();
+  // Keys with queued tasks and nothing running, in the order they got ready
+  private ready: string[] = [];
+  private running = 0;
+  private idleResolvers: Array<() => void> = [];
+
+  constructor(private concurrency: number) {}
+
+  enqueue(key: string, run: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tasks = this.queues.get(key) || [];
+      tasks.push({ run, resolve, reject });
+      this.queues.set(key, tasks);
+      if (tasks.length === 1 && !this.active.has(key)) {
+        this.ready.push(key);
+      }
+      this.pump();
+    });
+  }
+
+  /**
+   * Start queued tasks while there is spare capacity
+   * Keys take turns: a key whose task finishes goes behind the keys that were
+   * already waiting, so one busy user cannot hold every slot.
+   */
+  private pump(): void {
+    while (this.running < this.concurrency && this.ready.length > 0) {
+      const key = this.ready.shift()!;
+      this.start(key, this.queues.get(key)!.shift()!);
     }
   }
 
-  private async processQueue(
-    processor: (item: T) => Promise<void>
-  ): Promise<void> {
-    this.processing = true;
-    while (this.queue.length > 0) {
-      const item = this.queue.shift();
-      if (item) {
-        await processor(item);
-      }
+  private start(key: string, task: QueuedTask): void {
+    this.active.add(key);
+    this.running++;
+
+    task
+      .run()
+      .then(task.resolve, task.reject)
+      .finally(() => {
+        this.active.delete(key);
+        this.running--;
+        if (this.queues.get(key)?.length === 0) {
+          this.queues.delete(key);
+        } else {
+          this.ready.push(key);
+        }
+        this.pump();
+
+        if (this.running === 0 && this.queues.size === 0) {
+          const resolvers = this.idleResolvers;
+          this.idleResolvers = [];
+          resolvers.forEach((resolve) => resolve());
+        }
+      });
+  }
+
+  /**
+   * Resolves once every queue is empty and nothing is being processed
+   */
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.queues.size === 0) {
+      return Promise.resolve();
     }
-    this.processing = false;
+    return new Promise((resolve) => this.idleResolvers.push(resolve));
   }
 
   get size(): number {
-    return this.queue.length;
+    let size = 0;
+    for (const tasks of this.queues.values()) {
+      size += tasks.length;
+    }
+    return size;
+  }
+
+  get inFlight(): number {
+    return this.running;
   }
 
-  get isProcessing(): boolean {
-    return this.processing;
+  /**
+   * Queued and running task counts per key
+   */
+  getKeyStatus(): Record<string, { queued: number; inFlight: number }> {
+    const status: Record<string, { queued: number; inFlight: number }> = {};
+    for (const [key, tasks] of this.queues) {
+      status[key] = {
+        queued: tasks.length,
+        inFlight: this.active.has(key) ? 1 : 0,
+      };
+    }
+    return status;
   }
 }
 
+/**
+ * Dispatcher options
+ */
+export interface DispatcherOptions {
+  dedupStore?: DedupStore;
+  concurrency?: number;
+  errorReply?: string;
+}
+
 /**
  * Dispatcher class - manages message routing and handler execution
  */
 export class Dispatcher {
   private bot: any;
-  private queue: AsyncQueue<WebhookPayload>;
+  private queue: KeyedQueue;
   private registeredHandlers: UpdateHandler[] = [];
+  private statusHandlers: StatusHandler[] = [];
+  private fieldHandlers: WebhookFieldHandler[] = [];
+  private errorHandlers: ErrorHandlerFunction[] = [];
+  private errorReply?: string;
   private markAsRead: boolean;
   private nextStepHandlers: Map<string, NextStepConfig> = new Map();
+  private dedupStore?: DedupStore;
 
-  constructor(bot: any, markAsRead: boolean = true) {
+  /**
+   * Creates a new dispatcher
+   * @param bot - Client that owns the dispatcher
+   * @param markAsRead - Mark incoming messages as read
+   * @param options - Deduplication store, concurrency limit (default 10 users at a time) and fallback reply sent when a handler fails
+   */
+  constructor(
+    bot: any,
+    markAsRead: boolean = true,
+    options: DispatcherOptions = {}
+  ) {
     this.bot = bot;
-    this.queue = new AsyncQueue<WebhookPayload>();
+    this.queue = new KeyedQueue(Math.max(1, options.concurrency ?? 10));
     this.markAsRead = markAsRead;
+    this.dedupStore = options.dedupStore;
+    this.errorReply = options.errorReply;
   }
 
   /**
    * Process incoming webhook update
+   * Every message and status is queued under its user's phone number, so each
+   * conversation keeps its order while different users are served in parallel.
+   * Resolves once every item of the payload has been processed.
    */
   async processUpdate(update: WebhookPayload): Promise<void> {
-    await this.queue.enqueue(update, this.processQueueItem.bind(this));
+    if (!keysExist(update, 'entry')) {
+      return;
+    }
+
+    const tasks: Promise<void>[] = [];
+
+    for (const entry of update.entry) {
+      for (const change of entry.changes || []) {
+        // Account level fields (template status, alerts, ...) are not tied
+        // to a phone number
+        if (change.field && change.field !== 'messages') {
+          tasks.push(
+            this.queue.enqueue(FIELD_KEY_PREFIX + change.field, () =>
+              this.isolate(() =>
+                this.processField(change.field, change.value, entry.id)
+              )
+            )
+          );
+          continue;
+        }
+
+        const value = change.value;
+        if (!this.isOwnValue(value)) {
+          continue;
+        }
+
+        for (const message of value.messages || []) {
+          tasks.push(
+            this.queue.enqueue(message.from, () =>
+              this.isolate(() => this.processMessage(value, message))
+            )
+          );
+        }
+
+        for (const status of value.statuses || []) {
+          tasks.push(
+            this.queue.enqueue(status.recipient_id, () =>
+              this.isolate(() => this.processStatus(status), status)
+            )
+          );
+        }
+      }
+    }
+
+    await Promise.all(tasks);
   }
 
   /**
-   * Process a single queue item
+   * Run a unit of work so that its errors never reach the queue or the caller
    */
-  private async processQueueItem(
-    webhookPayload: WebhookPayload
+  private async isolate(
+    work: () => Promise<void>,
+    update?: Update | MessageStatus
   ): Promise<void> {
-    if (!keysExist(webhookPayload, 'entry', 0, 'changes', 0, 'value')) {
-      return;
+    try {
+      await work();
+    } catch (error) {
+      await this.handleError(error, update);
     }
+  }
 
-    const value: WebhookValue = webhookPayload.entry[0].changes[0].value;
+  /**
+   * Pass an error to the registered error handlers and send the fallback reply
+   */
+  private async handleError(
+    error: unknown,
+    update?: Update | MessageStatus,
+    handler?: AnyHandler
+  ): Promise<void> {
+    if (this.errorHandlers.length === 0) {
+      console.error('Error while processing update:', error);
+    }
 
-    if (!keysExist(value, 'metadata', 'phone_number_id')) {
-      return;
+    for (const errorHandler of this.errorHandlers) {
+      try {
+        await errorHandler(error, update, handler);
+      } catch (hookError) {
+        console.error('Error in error handler:', hookError);
+      }
     }
 
-    if (String(value.metadata.phone_number_id) !== String(this.bot.id)) {
-      return;
+    if (this.errorReply && update instanceof Update) {
+      await update.replyMessage(this.errorReply).catch(() => {
+        // Silently fail - the fallback reply is best effort
+      });
     }
+  }
+
+  /**
+   * Check that a webhook value was sent to this bot's phone number
+   */
+  private isOwnValue(value: WebhookValue | undefined): value is WebhookValue {
+    if (!value || !keysExist(value, 'metadata', 'phone_number_id')) {
+      return false;
+    }
+
+    return String(value.metadata.phone_number_id) === String(this.bot.id);
+  }
 
-    if (!keysExist(value, 'messages')) {
+  /**
+   * Run every handler registered for a webhook field
+   */
+  private async processField(
+    field: string,
+    value: unknown,
+    wabaId: string
+  ): Promise<void> {
+    for (const handler of this.fieldHandlers) {
+      if (handler.field !== field) continue;
+
+      try {
+        await handler.run(value, wabaId);
+      } catch (error) {
+        await this.handleError(error, undefined, handler);
+      }
+    }
+  }
+
+  /**
+   * Run every status handler matching a status update
+   */
+  private async processStatus(status: MessageStatus): Promise<void> {
+    if (await this.isDuplicate(`status:${status.id}:${status.status}`)) {
       return;
     }
 
-    const message = value.messages![0];
+    for (const handler of this.statusHandlers) {
+      if (handler.filterCheck(status)) {
+        try {
+          await handler.run(status, this.bot);
+        } catch (error) {
+          await this.handleError(error, status, handler);
+        }
+      }
+    }
+  }
 
-    // Mark message as read if enabled
-    if (this.markAsRead) {
+  /**
+   * Route a single message to the first matching handler
+   */
+  private async processMessage(
+    value: WebhookValue,
+    message: WhatsAppMessage
+  ): Promise<void> {
+    // Skip messages redelivered by webhook retries
+    if (await this.isDuplicate(`message:${message.id}`)) {
+      return;
+    }
+
+    // Send the read receipt once, if enabled
+    let read = !this.markAsRead;
+    const markRead = async (): Promise<void> => {
+      if (read) return;
+      read = true;
       await this.bot.markAsRead(message).catch(() => {
         // Silently fail - marking as read is not critical
       });
-    }
+    };
 
-    const update = new Update(this.bot, value);
+    const update = new Update(this.bot, value, message);
 
     // Get applicable handlers
     const handlers = this.getHandlersForUpdate(update);
@@ -114,7 +352,9 @@ export class Dispatcher {
       const shouldRun = await this.checkAndRunHandler(
         handler,
         value,
-        messageText
+        message,
+        messageText,
+        markRead
       );
 
       if (shouldRun) {
@@ -132,6 +372,18 @@ export class Dispatcher {
         return; // Stop processing after first successful handler
       }
     }
+
+    await markRead();
+  }
+
+  /**
+   * Check whether an event was already processed
+   */
+  private async isDuplicate(key: string): Promise<boolean> {
+    if (!this.dedupStore) {
+      return false;
+    }
+    return this.dedupStore.checkAndSet(key);
   }
 
   /**
@@ -158,17 +410,23 @@ export class Dispatcher {
 
   /**
    * Check if handler matches and run it
+   * The read receipt is sent before the handler runs, or after it finishes
+   * for handlers with the deferRead option.
    */
   private async checkAndRunHandler(
     handler: UpdateHandler,
     value: WebhookValue,
-    messageText: string
+    message: WhatsAppMessage,
+    messageText: string,
+    markRead: () => Promise<void>
   ): Promise<boolean> {
-    const message = value.messages?.[0];
-    if (!message) return false;
-
     // Check if handler type matches message type
-    if (handler.name !== message.type) {
+    if (!handler.canHandle(message)) {
+      return false;
+    }
+
+    // Check message level options
+    if (!handler.messageCheck(message)) {
       return false;
     }
 
@@ -177,19 +435,33 @@ export class Dispatcher {
       return false;
     }
 
+    if (!handler.deferRead) {
+      await markRead();
+    }
+
     // Create update with extracted data
-    const update = new Update(this.bot, value);
+    const update = new Update(this.bot, value, message);
     const extractedData = handler.extractData(message);
 
     update.messageText = extractedData.messageText;
     Object.assign(update, extractedData);
 
-    // Run handler with or without context
-    if (handler.context) {
-      const context = new UserContext(update.userPhoneNumber);
-      await handler.run(update, context);
-    } else {
-      await handler.run(update);
+    // Run handler with or without context; a failing handler still counts
+    // as the one that handled the message
+    try {
+      if (handler.context) {
+        const context = new UserContext(update.userPhoneNumber);
+        await handler.run(update, context);
+      } else {
+        await handler.run(update);
+      }
+    } catch (error) {
+      await this.handleError(error, update, handler);
+    }
+
+    // showTyping() already marked the message as read
+    if (!update.isRead) {
+      await markRead();
     }
 
     return true;
@@ -198,11 +470,28 @@ export class Dispatcher {
   /**
    * Register a handler
    */
-  registerHandler(handler: UpdateHandler): number {
+  registerHandler(handler: AnyHandler): number {
+    if (handler instanceof StatusHandler) {
+      this.statusHandlers.push(handler);
+      return this.statusHandlers.length - 1;
+    }
+
+    if (handler instanceof WebhookFieldHandler) {
+      this.fieldHandlers.push(handler);
+      return this.fieldHandlers.length - 1;
+    }
+
     this.registeredHandlers.push(handler);
     return this.registeredHandlers.length - 1;
   }
 
+  /**
+   * Register an error handler
+   */
+  registerErrorHandler(handler: ErrorHandlerFunction): void {
+    this.errorHandlers.push(handler);
+  }
+
   /**
    * Set next step handler for a specific user
    */
@@ -237,6 +526,20 @@ export class Dispatcher {
     this.nextStepHandlers.delete(phoneNumber);
   }
 
+  /**
+   * Get all registered status handlers
+   */
+  getStatusHandlers(): StatusHandler[] {
+    return [...this.statusHandlers];
+  }
+
+  /**
+   * Get all registered webhook field handlers
+   */
+  getFieldHandlers(): WebhookFieldHandler[] {
+    return [...this.fieldHandlers];
+  }
+
   /**
    * Get all registered handlers
    */
@@ -249,15 +552,37 @@ export class Dispatcher {
    */
   clearHandlers(): void {
     this.registeredHandlers = [];
+    this.statusHandlers = [];
+    this.fieldHandlers = [];
+  }
+
+  /**
+   * Wait until every queued update has been processed
+   */
+  async drain(): Promise<void> {
+    await this.queue.onIdle();
   }
 
   /**
    * Get queue status
    */
-  getQueueStatus(): { size: number; isProcessing: boolean } {
+  getQueueStatus(): QueueStatus {
+    const users: QueueStatus['users'] = {};
+    const fields: QueueStatus['fields'] = {};
+    for (const [key, status] of Object.entries(this.queue.getKeyStatus())) {
+      if (key.startsWith(FIELD_KEY_PREFIX)) {
+        fields[key.slice(FIELD_KEY_PREFIX.length)] = status;
+      } else {
+        users[key] = status;
+      }
+    }
+
     return {
       size: this.queue.size,
-      isProcessing: this.queue.isProcessing,
+      isProcessing: this.queue.inFlight > 0,
+      inFlight: this.queue.inFlight,
+      users,
+      fields,
     };
   }
 }
@@ -0,0 +1,319 @@
+/**
+ * WhatsApp Flows Endpoint
+ * Decrypts data exchange requests, routes them to screen handlers and
+ * encrypts the responses
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  constants,
+  privateDecrypt,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
+import type {
+  EncryptedFlowRequest,
+  FlowEndpointRequest,
+  FlowEndpointResponse,
+  FlowScreenHandlerFunction,
+  WebhookRequest,
+  WebhookResponse,
+} from './types';
+import { FlowDecryptionError, FlowEndpointError } from './errors';
+import { getHeader, verifySignature } from './Webhook';
+
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Flow Endpoint Configuration
+ */
+export interface FlowEndpointOptions {
+  privateKey: string | Buffer | KeyObject;
+  passphrase?: string;
+  appSecret?: string;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Load a PEM private key unless it already is a KeyObject
+ */
+function toPrivateKey(
+  privateKey: string | Buffer | KeyObject,
+  passphrase?: string
+): KeyObject {
+  if (typeof privateKey === 'object' && !Buffer.isBuffer(privateKey)) {
+    return privateKey;
+  }
+  return createPrivateKey({ key: privateKey, passphrase });
+}
+
+/**
+ * Parse the body of a data exchange request
+ * @returns The encrypted request, or undefined for invalid JSON or missing
+ * fields
+ */
+function parseEncryptedRequest(
+  rawBody: Buffer | string
+): EncryptedFlowRequest | undefined {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(rawBody.toString());
+  } catch {
+    return undefined;
+  }
+
+  const fields = [
+    'encrypted_flow_data',
+    'encrypted_aes_key',
+    'initial_vector',
+  ] as const;
+  if (
+    !body ||
+    typeof body !== 'object' ||
+    fields.some((field) => typeof body[field] !== 'string')
+  ) {
+    return undefined;
+  }
+  return body as unknown as EncryptedFlowRequest;
+}
+
+/**
+ * Decrypted flow request with the key material needed for the response
+ */
+export interface DecryptedFlowRequest {
+  body: FlowEndpointRequest;
+  aesKey: Buffer;
+  initialVector: Buffer;
+}
+
+/**
+ * Decrypt a flow data exchange request
+ * The AES key is decrypted with RSA-OAEP (SHA-256); the flow data with
+ * AES-GCM, its last 16 bytes being the authentication tag.
+ * @throws FlowDecryptionError if the request cannot be decrypted
+ */
+export function decryptFlowRequest(
+  request: EncryptedFlowRequest,
+  privateKey: string | Buffer | KeyObject,
+  passphrase?: string
+): DecryptedFlowRequest {
+  try {
+    const key = toPrivateKey(privateKey, passphrase);
+
+    const aesKey = privateDecrypt(
+      {
+        key,
+        padding: constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: 'sha256',
+      },
+      Buffer.from(request.encrypted_aes_key, 'base64')
+    );
+    const initialVector = Buffer.from(request.initial_vector, 'base64');
+    const flowData = Buffer.from(request.encrypted_flow_data, 'base64');
+
+    const decipher = createDecipheriv(
+      `aes-${aesKey.length * 8}-gcm` as 'aes-128-gcm',
+      aesKey,
+      initialVector
+    );
+    decipher.setAuthTag(flowData.subarray(-AUTH_TAG_LENGTH));
+
+    const decrypted = Buffer.concat([
+      decipher.update(flowData.subarray(0, -AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+
+    return {
+      body: JSON.parse(decrypted.toString('utf-8')),
+      aesKey,
+      initialVector,
+    };
+  } catch (error) {
+    throw new FlowDecryptionError(
+      error instanceof Error ? error.message : undefined
+    );
+  }
+}
+
+/**
+ * Encrypt a flow response with the request's AES key and the flipped IV
+ * @returns Base64 encoded ciphertext followed by the authentication tag
+ */
+export function encryptFlowResponse(
+  response: FlowEndpointResponse,
+  aesKey: Buffer,
+  initialVector: Buffer
+): string {
+  const flippedIv = Buffer.from(initialVector.map((byte) => ~byte & 0xff));
+
+  const cipher = createCipheriv(
+    `aes-${aesKey.length * 8}-gcm` as 'aes-128-gcm',
+    aesKey,
+    flippedIv
+  );
+
+  return Buffer.concat([
+    cipher.update(JSON.stringify(response), 'utf-8'),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]).toString('base64');
+}
+
+/**
+ * Flow Endpoint
+ * Handles the data exchange requests of WhatsApp Flows. Health checks (ping)
+ * and error notifications are answered automatically; INIT, BACK and
+ * data_exchange requests are passed to the registered handlers.
+ *
+ * @example
+ * ```typescript
+ * const endpoint = new FlowEndpoint({
+ *   privateKey: process.env.FLOW_PRIVATE_KEY,
+ *   passphrase: process.env.FLOW_PASSPHRASE,
+ *   appSecret: process.env.APP_SECRET,
+ * });
+ *
+ * endpoint.onInit(async () => ({
+ *   screen: 'APPOINTMENT',
+ *   data: { slots: await getFreeSlots() },
+ * }));
+ *
+ * endpoint.onScreen('APPOINTMENT', async (request) => ({
+ *   screen: 'SUCCESS',
+ *   data: {
+ *     extension_message_response: {
+ *       params: { flow_token: request.flow_token, slot: request.data?.slot },
+ *     },
+ *   },
+ * }));
+ *
+ * // Serve next to the webhook
+ * await client.listen({ port: 3000, flowEndpoint: endpoint });
+ * ```
+ */
+export class FlowEndpoint {
+  private privateKey: KeyObject;
+  private options: FlowEndpointOptions;
+  private initHandler?: FlowScreenHandlerFunction;
+  private backHandler?: FlowScreenHandlerFunction;
+  private screenHandlers: Map<string, FlowScreenHandlerFunction> = new Map();
+
+  /**
+   * Creates a new flow endpoint
+   * @param options - Private key (PEM or KeyObject), passphrase and app secret
+   */
+  constructor(options: FlowEndpointOptions) {
+    this.options = options;
+    this.privateKey = toPrivateKey(options.privateKey, options.passphrase);
+  }
+
+  /**
+   * Register handler for INIT requests (flow opened with data_exchange)
+   */
+  onInit(action: FlowScreenHandlerFunction): void {
+    this.initHandler = action;
+  }
+
+  /**
+   * Register handler for BACK requests
+   * Without one, BACK requests are passed to the screen's handler.
+   */
+  onBack(action: FlowScreenHandlerFunction): void {
+    this.backHandler = action;
+  }
+
+  /**
+   * Register handler for data_exchange requests sent from a screen
+   */
+  onScreen(screen: string, action: FlowScreenHandlerFunction): void {
+    this.screenHandlers.set(screen, action);
+  }
+
+  /**
+   * Route a decrypted request to its handler
+   * @throws Error if no handler is registered for the request
+   */
+  async processRequest(
+    request: FlowEndpointRequest
+  ): Promise<FlowEndpointResponse> {
+    if (request.action === 'ping') {
+      return { data: { status: 'active' } };
+    }
+
+    if (request.data?.error) {
+      return { data: { acknowledged: true } };
+    }
+
+    let handler: FlowScreenHandlerFunction | undefined;
+    if (request.action === 'INIT') {
+      handler = this.initHandler;
+    } else if (request.action === 'BACK' && this.backHandler) {
+      handler = this.backHandler;
+    } else if (request.screen) {
+      handler = this.screenHandlers.get(request.screen);
+    }
+
+    if (!handler) {
+      throw new Error(
+        `No flow handler for ${request.action} on screen ${request.screen ?? '-'}`
+      );
+    }
+
+    return handler(request);
+  }
+
+  /**
+   * Handle a flow endpoint HTTP request
+   * Answers 400 for malformed bodies, 432 for invalid signatures, 421 when
+   * the request cannot be decrypted and 500 (or a FlowEndpointError's status) when the handler fails.
+   */
+  async handleRequest(request: WebhookRequest): Promise<WebhookResponse> {
+    if (request.method.toUpperCase() !== 'POST') {
+      return { status: 405, body: 'Method Not Allowed' };
+    }
+
+    const rawBody = request.rawBody ?? '';
+
+    if (this.options.appSecret) {
+      const signature = getHeader(request.headers, 'x-hub-signature-256');
+      if (!verifySignature(rawBody, signature, this.options.appSecret)) {
+        return { status: 432, body: 'Invalid signature' };
+      }
+    }
+
+    const encrypted = parseEncryptedRequest(rawBody);
+    if (!encrypted) {
+      return { status: 400, body: 'Invalid flow request' };
+    }
+
+    let decrypted: DecryptedFlowRequest;
+    try {
+      decrypted = decryptFlowRequest(encrypted, this.privateKey);
+    } catch (error) {
+      this.options.onError?.(error);
+      if (error instanceof FlowDecryptionError) {
+        return { status: 421, body: 'Failed to decrypt request' };
+      }
+      return { status: 500, body: 'Internal Server Error' };
+    }
+
+    try {
+      const response = await this.processRequest(decrypted.body);
+      return {
+        status: 200,
+        body: encryptFlowResponse(
+          response,
+          decrypted.aesKey,
+          decrypted.initialVector
+        ),
+      };
+    } catch (error) {
+      this.options.onError?.(error);
+      if (error instanceof FlowEndpointError) {
+        return { status: error.status, body: error.message };
+      }
+      return { status: 500, body: 'Internal Server Error' };
+    }
+  }
+}
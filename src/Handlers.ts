@@ -6,13 +6,21 @@
 import type {
   UpdateData,
   WhatsAppMessage,
+  FlowResponse,
   HandlerFunction,
   FilterFunction,
   HandlerOptions,
   InteractiveHandlerOptions,
   MessageType,
+  MessageStatus,
+  MessageStatusType,
+  StatusHandlerFunction,
+  StatusHandlerOptions,
+  WhatsAppClient,
+  WebhookFieldHandlerFunction,
 } from './types';
 import type { Update } from './Update';
+import { getOrderTotal } from './utils/helpers';
 import type { UserContext } from './UserContext';
 
 /**
@@ -25,6 +33,9 @@ export abstract class UpdateHandler {
   public action: HandlerFunction;
   public context: boolean;
   public persistent: boolean;
+  public referral?: HandlerOptions['referral'];
+  public replyTo?: HandlerOptions['replyTo'];
+  public deferRead: boolean;
 
   constructor(
     name: MessageType,
@@ -46,6 +57,17 @@ export abstract class UpdateHandler {
     if (options.filter) {
       this.filter = options.filter;
     }
+
+    this.referral = options.referral;
+    this.replyTo = options.replyTo;
+    this.deferRead = options.deferRead || false;
+  }
+
+  /**
+   * Check if this handler handles the message's type
+   */
+  canHandle(message: WhatsAppMessage): boolean {
+    return message.type === this.name;
   }
 
   /**
@@ -53,6 +75,31 @@ export abstract class UpdateHandler {
    */
   abstract extractData(message: WhatsAppMessage): UpdateData;
 
+  /**
+   * Check if message passes the message level options (referral, replyTo)
+   */
+  messageCheck(message: WhatsAppMessage): boolean {
+    if (this.referral !== undefined) {
+      if (typeof this.referral === 'function') {
+        if (!message.referral || !this.referral(message.referral)) {
+          return false;
+        }
+      } else if (this.referral !== (message.referral !== undefined)) {
+        return false;
+      }
+    }
+
+    if (this.replyTo !== undefined) {
+      const quotedId = message.context?.id;
+      if (typeof this.replyTo === 'string') {
+        return quotedId === this.replyTo;
+      }
+      return this.replyTo === (quotedId !== undefined);
+    }
+
+    return true;
+  }
+
   /**
    * Check if message passes filter
    */
@@ -111,6 +158,17 @@ export class InteractiveQueryHandler extends UpdateHandler {
     this.handleList = options.handleList !== false;
   }
 
+  canHandle(message: WhatsAppMessage): boolean {
+    if (message.type !== 'interactive') {
+      return false;
+    }
+    const type = message.interactive?.type;
+    return (
+      (type === 'button_reply' && this.handleButton) ||
+      (type === 'list_reply' && this.handleList)
+    );
+  }
+
   extractData(message: WhatsAppMessage): UpdateData {
     const data: UpdateData = {
       messageText: '',
@@ -140,6 +198,76 @@ export class InteractiveQueryHandler extends UpdateHandler {
   }
 }
 
+/**
+ * Flow Response Handler
+ * Handles replies sent when a user completes a WhatsApp Flow. The parsed
+ * `response_json` is put on `update.flowResponse`; filters are checked
+ * against the flow token.
+ *
+ * @example
+ * ```typescript
+ * const handler = new FlowResponseHandler(
+ *   async (update) => console.log(update.flowResponse),
+ *   { regex: /^signup-/ }
+ * );
+ * ```
+ */
+export class FlowResponseHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('interactive', action, options);
+  }
+
+  canHandle(message: WhatsAppMessage): boolean {
+    return (
+      message.type === 'interactive' &&
+      message.interactive?.type === 'nfm_reply'
+    );
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    let flowResponse: FlowResponse | undefined;
+    try {
+      flowResponse = JSON.parse(
+        message.interactive?.nfm_reply?.response_json || ''
+      );
+    } catch {
+      // Leave flowResponse undefined for malformed replies
+    }
+
+    return {
+      messageText: flowResponse?.flow_token || '',
+      flowResponse,
+    };
+  }
+}
+
+/**
+ * Template Button Handler
+ * Handles taps on template quick-reply buttons. Filters are checked against
+ * the button payload.
+ *
+ * @example
+ * ```typescript
+ * const handler = new TemplateButtonHandler(
+ *   async (update) => await update.replyMessage('You are unsubscribed'),
+ *   { regex: /^UNSUBSCRIBE$/ }
+ * );
+ * ```
+ */
+export class TemplateButtonHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('button', action, options);
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    return {
+      messageText: message.button?.payload || '',
+      buttonPayload: message.button?.payload,
+      buttonText: message.button?.text,
+    };
+  }
+}
+
 /**
  * Base Media Handler
  */
@@ -279,32 +407,210 @@ export class LocationHandler extends UpdateHandler {
   }
 }
 
+/**
+ * Contacts Handler
+ * Handles shared contact cards; the parsed cards are put on `update.contacts`
+ */
+export class ContactsHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('contacts', action, options);
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    const contacts = message.contacts || [];
+    return {
+      messageText: contacts
+        .map((contact) => contact.name?.formatted_name || '')
+        .filter(Boolean)
+        .join(', '),
+      contacts,
+    };
+  }
+}
+
+/**
+ * Order Handler
+ * Handles carts sent from catalog and product messages. The order is put on
+ * `update.order` and its total on `update.orderTotal`; filters are checked
+ * against the text sent with the order.
+ */
+export class OrderHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('order', action, options);
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    const order = message.order;
+    return {
+      messageText: order?.text || '',
+      order,
+      orderTotal: order ? getOrderTotal(order) : undefined,
+    };
+  }
+}
+
+/**
+ * Reaction Handler
+ * Handles emoji reactions to messages. `update.reactionMessageId` is the
+ * message reacted to; `update.reactionEmoji` is empty when the reaction was
+ * removed. Filters are checked against the emoji.
+ */
+export class ReactionHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('reaction', action, options);
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    const emoji = message.reaction?.emoji || '';
+    return {
+      messageText: emoji,
+      reactionMessageId: message.reaction?.message_id,
+      reactionEmoji: emoji,
+    };
+  }
+}
+
+/**
+ * System Message Handler
+ * Handles notices that a customer changed their number or identity. The
+ * notice is put on `update.system`; filters are checked against its body.
+ */
+export class SystemHandler extends UpdateHandler {
+  constructor(action: HandlerFunction, options: HandlerOptions = {}) {
+    super('system', action, options);
+  }
+
+  extractData(message: WhatsAppMessage): UpdateData {
+    return {
+      messageText: message.system?.body || '',
+      system: message.system,
+    };
+  }
+}
+
 /**
  * Unknown Message Handler
+ * The reason is put on `update.errors`.
  */
 export class UnknownHandler extends UpdateHandler {
   constructor(action: HandlerFunction, options: HandlerOptions = {}) {
     super('unknown', action, options);
   }
 
-  extractData(_message: WhatsAppMessage): UpdateData {
+  extractData(message: WhatsAppMessage): UpdateData {
     return {
       messageText: '',
+      errors: message.errors || [],
     };
   }
 }
 
 /**
  * Unsupported Message Handler
+ * Handles message types the API cannot deliver (error code 131051); the
+ * reason is put on `update.errors`.
  */
 export class UnsupportedHandler extends UpdateHandler {
   constructor(action: HandlerFunction, options: HandlerOptions = {}) {
     super('unsupported', action, options);
   }
 
-  extractData(_message: WhatsAppMessage): UpdateData {
+  extractData(message: WhatsAppMessage): UpdateData {
     return {
       messageText: '',
+      errors: message.errors || [],
     };
   }
 }
+
+/**
+ * Status Handler
+ * Handles delivery status updates (sent, delivered, read, failed) for
+ * messages sent by the business. Every matching status handler is run.
+ *
+ * @example
+ * ```typescript
+ * const handler = new StatusHandler(
+ *   async (status) => console.log(status.errors),
+ *   { status: 'failed' }
+ * );
+ * ```
+ */
+export class StatusHandler {
+  public statuses?: MessageStatusType[];
+  public filter?: (status: MessageStatus) => boolean;
+  public action: StatusHandlerFunction;
+
+  constructor(
+    action: StatusHandlerFunction,
+    options: StatusHandlerOptions = {}
+  ) {
+    this.action = action;
+
+    if (options.status) {
+      this.statuses = Array.isArray(options.status)
+        ? options.status
+        : [options.status];
+    }
+
+    if (options.filter) {
+      this.filter = options.filter;
+    }
+  }
+
+  /**
+   * Check if status passes the status list and filter
+   */
+  filterCheck(status: MessageStatus): boolean {
+    if (this.statuses && !this.statuses.includes(status.status)) {
+      return false;
+    }
+    if (this.filter) {
+      return this.filter(status);
+    }
+    return true;
+  }
+
+  /**
+   * Run the handler action
+   */
+  async run(status: MessageStatus, bot: WhatsAppClient): Promise<void> {
+    await this.action(status, bot);
+  }
+}
+
+/**
+ * Webhook Field Handler
+ * Handles changes for a non-message webhook field such as
+ * message_template_status_update or account_alerts. Every handler registered
+ * for the field is run.
+ *
+ * @example
+ * ```typescript
+ * const handler = new WebhookFieldHandler(
+ *   'message_template_status_update',
+ *   async (value) => console.log(value.event)
+ * );
+ * ```
+ */
+export class WebhookFieldHandler<T = any> {
+  public field: string;
+  public action: WebhookFieldHandlerFunction<T>;
+
+  constructor(field: string, action: WebhookFieldHandlerFunction<T>) {
+    this.field = field;
+    this.action = action;
+  }
+
+  /**
+   * Run the handler action
+   */
+  async run(value: T, wabaId: string): Promise<void> {
+    await this.action(value, wabaId);
+  }
+}
+
+/**
+ * Any handler that can be registered on a client
+ */
+export type AnyHandler = UpdateHandler | StatusHandler | WebhookFieldHandler;
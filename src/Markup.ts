@@ -3,7 +3,7 @@
  * Used to create buttons, lists, and other interactive elements
  */
 
-import type { ReplyMarkup, ReplyMarkupType } from './types';
+import type { ReplyMarkup, ReplyMarkupType, InlineFlowOptions } from './types';
 
 /**
  * Base Reply Markup Class
@@ -357,3 +357,268 @@ export class InlineLocationRequest extends BaseReplyMarkup {
     super('location_request_message', markup);
   }
 }
+
+/**
+ * Inline Flow
+ * Creates a call-to-action button that opens a WhatsApp Flow
+ *
+ * @example
+ * ```typescript
+ * const flow = new InlineFlow('Sign up', {
+ *   flowId: '1234567890',
+ *   token: 'signup-15551234567',
+ *   screen: 'WELCOME',
+ *   data: { name: 'Jane' },
+ * });
+ *
+ * // Let the flow endpoint provide the first screen
+ * const flow = new InlineFlow('Book now', {
+ *   flowName: 'appointment_booking',
+ *   action: 'data_exchange',
+ * });
+ * ```
+ */
+export class InlineFlow extends BaseReplyMarkup {
+  /**
+   * Creates a flow button
+   * @param cta - Button text (max 30 characters)
+   * @param options - Flow id or name, token, action and initial screen
+   */
+  constructor(cta: string, options: InlineFlowOptions) {
+    InlineFlow.validateFlow(cta, options);
+
+    const { action = 'navigate' } = options;
+
+    const parameters: Record<string, unknown> = {
+      flow_message_version: options.version || '3',
+      flow_cta: cta,
+      flow_action: action,
+    };
+
+    if (options.flowId) {
+      parameters.flow_id = options.flowId;
+    } else {
+      parameters.flow_name = options.flowName;
+    }
+
+    if (options.token) {
+      parameters.flow_token = options.token;
+    }
+
+    if (options.mode) {
+      parameters.mode = options.mode;
+    }
+
+    if (action === 'navigate') {
+      const payload: Record<string, unknown> = { screen: options.screen };
+      if (options.data && Object.keys(options.data).length > 0) {
+        payload.data = options.data;
+      }
+      parameters.flow_action_payload = payload;
+    }
+
+    const markup = {
+      name: 'flow',
+      parameters: parameters,
+    };
+
+    super('flow', markup);
+  }
+
+  /**
+   * Validate flow constraints
+   */
+  private static validateFlow(cta: string, options: InlineFlowOptions): void {
+    if (!cta || cta.length > 30) {
+      throw new Error('Flow CTA must be 1-30 characters');
+    }
+
+    if (Boolean(options.flowId) === Boolean(options.flowName)) {
+      throw new Error('Flow requires exactly one of flowId or flowName');
+    }
+
+    if ((options.action || 'navigate') === 'navigate' && !options.screen) {
+      throw new Error('Flow screen is required for the navigate action');
+    }
+
+    if (options.action === 'data_exchange' && options.screen) {
+      throw new Error('Flow screen cannot be set for the data_exchange action');
+    }
+  }
+}
+
+/**
+ * Inline Product
+ * Shows a single product from a catalog
+ *
+ * @example
+ * ```typescript
+ * const product = new InlineProduct('catalog_id', 'sku_123');
+ * ```
+ */
+export class InlineProduct extends BaseReplyMarkup {
+  /**
+   * Creates a single product message
+   * @param catalogId - Catalog connected to the WhatsApp Business Account
+   * @param productRetailerId - Product's retailer id (SKU) in the catalog
+   */
+  constructor(catalogId: string, productRetailerId: string) {
+    if (!catalogId || !productRetailerId) {
+      throw new Error(
+        'Product requires a catalog id and a product retailer id'
+      );
+    }
+
+    const markup = {
+      catalog_id: catalogId,
+      product_retailer_id: productRetailerId,
+    };
+
+    super('product', markup);
+  }
+}
+
+/**
+ * Product Section
+ * Groups products of a product list under a section title
+ *
+ * @example
+ * ```typescript
+ * const section = new ProductSection('Shoes', ['sku_1', 'sku_2']);
+ * ```
+ */
+export class ProductSection {
+  public section: {
+    title: string;
+    product_items: Array<{ product_retailer_id: string }>;
+  };
+
+  /**
+   * Creates a product section
+   * @param title - Section title (max 24 characters)
+   * @param productRetailerIds - Product retailer ids (SKUs) in the section
+   */
+  constructor(title: string, productRetailerIds: string[]) {
+    if (title.length > 24) {
+      throw new Error('Section title must be 24 characters or less');
+    }
+
+    if (!Array.isArray(productRetailerIds) || productRetailerIds.length === 0) {
+      throw new Error('Section must have at least one product');
+    }
+
+    this.section = {
+      title: title,
+      product_items: productRetailerIds.map((id) => ({
+        product_retailer_id: id,
+      })),
+    };
+  }
+}
+
+/**
+ * Inline Product List
+ * Shows up to 30 products from a catalog in up to 10 sections. Product list
+ * messages require a text header.
+ *
+ * @example
+ * ```typescript
+ * const productList = new InlineProductList('catalog_id', [
+ *   new ProductSection('Shoes', ['sku_1', 'sku_2']),
+ *   new ProductSection('Socks', ['sku_3']),
+ * ]);
+ *
+ * await client.sendMessage('1234567890', 'Our bestsellers', {
+ *   replyMarkup: productList,
+ *   header: 'Summer sale',
+ * });
+ * ```
+ */
+export class InlineProductList extends BaseReplyMarkup {
+  /**
+   * Creates a product list
+   * @param catalogId - Catalog connected to the WhatsApp Business Account
+   * @param sections - Product sections (1-10 sections, max 30 products total)
+   */
+  constructor(catalogId: string, sections: ProductSection[]) {
+    if (!catalogId) {
+      throw new Error('Product list requires a catalog id');
+    }
+
+    InlineProductList.validateSections(sections);
+
+    const markup = {
+      catalog_id: catalogId,
+      sections: sections.map((section) => section.section),
+    };
+
+    super('product_list', markup);
+  }
+
+  /**
+   * Validate product list constraints
+   */
+  private static validateSections(sections: ProductSection[]): void {
+    if (!Array.isArray(sections)) {
+      throw new Error('Sections must be an array');
+    }
+
+    if (sections.length < 1 || sections.length > 10) {
+      throw new Error(
+        `Product list must have 1-10 sections, got ${sections.length}`
+      );
+    }
+
+    if (!sections.every((section) => section instanceof ProductSection)) {
+      throw new Error('Sections must be ProductSection instances');
+    }
+
+    if (sections.length > 1 && sections.some((s) => !s.section.title)) {
+      throw new Error('Every section needs a title when there are several');
+    }
+
+    const totalProducts = sections.reduce(
+      (total, section) => total + section.section.product_items.length,
+      0
+    );
+
+    if (totalProducts > 30) {
+      throw new Error(
+        `Product list can have maximum 30 products, got ${totalProducts}`
+      );
+    }
+  }
+}
+
+/**
+ * Inline Catalog
+ * Creates a button that opens the business's catalog
+ *
+ * @example
+ * ```typescript
+ * const catalog = new InlineCatalog('sku_123');
+ * ```
+ */
+export class InlineCatalog extends BaseReplyMarkup {
+  /**
+   * Creates a catalog message button
+   * @param thumbnailProductRetailerId - Product shown as the message thumbnail
+   * (defaults to the first catalog item)
+   */
+  constructor(thumbnailProductRetailerId?: string) {
+    const markup: {
+      name: string;
+      parameters?: { thumbnail_product_retailer_id: string };
+    } = {
+      name: 'catalog_message',
+    };
+
+    if (thumbnailProductRetailerId) {
+      markup.parameters = {
+        thumbnail_product_retailer_id: thumbnailProductRetailerId,
+      };
+    }
+
+    super('catalog_message', markup);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Media Upload
+ * Read local media sources and remember uploaded media ids by content hash
+ */
+
+import { createHash } from 'crypto';
+import { readFile, stat } from 'fs/promises';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import type { MediaSource } from './types';
+import { isLink } from './utils/helpers';
+import { TtlMap } from './utils/ttlMap';
+import { readBody } from './Webhook';
+import { MediaValidationError, PayloadTooLargeError } from './errors';
+
+/**
+ * Media content read from a local source
+ */
+export interface MediaContent {
+  data: Buffer;
+  fileName?: string;
+}
+
+/**
+ * Check whether a media source has to be uploaded before sending
+ * URLs and media ids (numeric strings) are sent as they are; anything else
+ * is a local file path, a Buffer or a stream.
+ */
+export function isLocalMedia(source: MediaSource): boolean {
+  if (typeof source !== 'string') {
+    return true;
+  }
+  return !isLink(source) && !/^\d+$/.test(source);
+}
+
+/**
+ * Error for media larger than the size read into memory
+ */
+function tooLarge(
+  fileName: string | undefined,
+  maxSize: number,
+  size?: number
+): MediaValidationError {
+  return new MediaValidationError(
+    `${fileName || 'Media'} is larger than ${maxSize} bytes`,
+    { size, maxSize }
+  );
+}
+
+/**
+ * Read a local media source into memory
+ * Files and streams larger than `maxSize` are rejected without being read
+ * in full.
+ * @param source - File path, Buffer or Readable stream
+ * @param fileName - File name to use (defaults to the path's base name)
+ * @param maxSize - Largest size to read, in bytes
+ * @throws Error if the file cannot be read
+ * @throws MediaValidationError if the media is larger than `maxSize`
+ */
+export async function readMediaSource(
+  source: MediaSource,
+  fileName?: string,
+  maxSize: number = Infinity
+): Promise<MediaContent> {
+  if (Buffer.isBuffer(source)) {
+    return { data: source, fileName };
+  }
+
+  if (source instanceof Readable) {
+    // fs.ReadStream exposes the file it reads
+    const path = (source as Readable & { path?: unknown }).path;
+    const name = fileName || (typeof path === 'string' ? basename(path) : '');
+    try {
+      return { data: await readBody(source, maxSize), fileName: name };
+    } catch (error) {
+      if (!(error instanceof PayloadTooLargeError)) throw error;
+      source.destroy();
+      throw tooLarge(name, maxSize);
+    }
+  }
+
+  const name = fileName || basename(source);
+  let data: Buffer;
+  try {
+    const { size } = await stat(source);
+    if (size > maxSize) {
+      throw tooLarge(name, maxSize, size);
+    }
+    data = await readFile(source);
+  } catch (error) {
+    if (error instanceof MediaValidationError) throw error;
+    throw new Error(
+      `Cannot read media file ${source}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return { data, fileName: name };
+}
+
+/**
+ * Media upload cache options
+ */
+export interface MediaUploadCacheOptions {
+  ttl?: number;
+  maxSize?: number;
+}
+
+/**
+ * Media Upload Cache
+ * Maps content hashes to uploaded media ids so the same file is uploaded
+ * only once. Uploaded media is kept by WhatsApp for 30 days, so entries
+ * expire after 29 days by default.
+ */
+export class MediaUploadCache {
+  private entries: TtlMap<string>;
+
+  /**
+   * Creates a new cache
+   * @param options - Time to live in milliseconds and maximum number of entries
+   */
+  constructor(options: MediaUploadCacheOptions = {}) {
+    this.entries = new TtlMap(
+      options.ttl ?? 29 * 24 * 60 * 60 * 1000,
+      options.maxSize ?? 1000
+    );
+  }
+
+  /**
+   * Compute the cache key of some content
+   */
+  static key(data: Buffer, mimeType: string): string {
+    return `${mimeType}:${createHash('sha256').update(data).digest('hex')}`;
+  }
+
+  /**
+   * Get a cached media id
+   */
+  get(key: string): string | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Cache a media id
+   */
+  set(key: string, id: string): void {
+    this.entries.set(key, id);
+  }
+
+  /**
+   * Number of cached media ids
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Media Validation
+ * Check media against WhatsApp's per-type MIME types and size limits before
+ * it is uploaded or sent
+ */
+
+import type { MediaType } from './types';
+import { MediaValidationError } from './errors';
+
+const KB = 1024;
+const MB = 1024 * 1024;
+
+/**
+ * Allowed MIME types and maximum size per media type
+ * Animated stickers may be up to 500 KB.
+ */
+export const MEDIA_LIMITS: Record<
+  MediaType,
+  { mimeTypes: string[]; maxSize: number }
+> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png'],
+    maxSize: 5 * MB,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+    maxSize: 16 * MB,
+  },
+  audio: {
+    mimeTypes: [
+      'audio/aac',
+      'audio/amr',
+      'audio/mpeg',
+      'audio/mp4',
+      'audio/ogg',
+    ],
+    maxSize: 16 * MB,
+  },
+  document: {
+    mimeTypes: [
+      'text/plain',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    maxSize: 100 * MB,
+  },
+  sticker: {
+    mimeTypes: ['image/webp'],
+    maxSize: 100 * KB,
+  },
+};
+
+const ANIMATED_STICKER_MAX_SIZE = 500 * KB;
+
+/**
+ * Infer the media type from a MIME type
+ * WebP images can only be sent as stickers.
+ * @returns Media type, or undefined for MIME types WhatsApp does not accept
+ */
+export function inferMediaType(mimeType?: string): MediaType | undefined {
+  if (!mimeType) {
+    return undefined;
+  }
+
+  const type = (Object.keys(MEDIA_LIMITS) as MediaType[]).find((t) =>
+    MEDIA_LIMITS[t].mimeTypes.includes(mimeType)
+  );
+  return type;
+}
+
+/**
+ * Check whether WebP content is animated (extended format with animation flag)
+ */
+export function isAnimatedWebp(data: Buffer): boolean {
+  return (
+    data.length > 20 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WEBP' &&
+    data.toString('ascii', 12, 16) === 'VP8X' &&
+    (data[20] & 0x02) !== 0
+  );
+}
+
+/**
+ * Largest size media of a type may have
+ * @param type - Media type, or undefined for the largest limit of any type
+ */
+export function getMaxMediaSize(type?: MediaType): number {
+  if (type === 'sticker') {
+    return ANIMATED_STICKER_MAX_SIZE;
+  }
+  if (type) {
+    return MEDIA_LIMITS[type].maxSize;
+  }
+  return Math.max(...Object.values(MEDIA_LIMITS).map((l) => l.maxSize));
+}
+
+/**
+ * Validate media against the limits of its type
+ * The size is only checked when the content is known (local media).
+ * @param type - Media type the media is sent as
+ * @param mimeType - MIME type, if known
+ * @param data - Media content, if known
+ * @throws MediaValidationError if the media cannot be sent as this type
+ */
+export function validateMedia(
+  type: MediaType,
+  mimeType?: string,
+  data?: Buffer
+): void {
+  const limits = MEDIA_LIMITS[type];
+
+  if (mimeType && !limits.mimeTypes.includes(mimeType)) {
+    throw new MediaValidationError(
+      `${mimeType} cannot be sent as ${type}, allowed: ${limits.mimeTypes.join(', ')}`,
+      { mediaType: type, mimeType }
+    );
+  }
+
+  if (!data) {
+    return;
+  }
+
+  const maxSize =
+    type === 'sticker' && isAnimatedWebp(data)
+      ? ANIMATED_STICKER_MAX_SIZE
+      : limits.maxSize;
+
+  if (data.length > maxSize) {
+    throw new MediaValidationError(
+      `${type} is ${data.length} bytes, the limit is ${maxSize} bytes`,
+      { mediaType: type, mimeType, size: data.length, maxSize }
+    );
+  }
+}
@@ -9,7 +9,7 @@ import FormData from 'form-data';
 import { createReadStream } from 'fs';
 import { writeFile, mkdir } from 'fs/promises';
 import { join, dirname } from 'path';
-import type { ReplyMarkup } from './types';
+import type { ReplyMarkup, MediaType, SharedContact } from './types';
 import { isLink, getExtensionFromMimeType } from './utils/helpers';
 
 const TIMEOUT = 30000; // 30 seconds
@@ -25,19 +25,24 @@ function getHeaders(token: string): Record<string, string> {
 }
 
 /**
- * Mark message as read
+ * Mark message as read, optionally showing a typing indicator
  */
 export async function markAsRead(
   url: string,
   token: string,
-  messageId: string
+  messageId: string,
+  typingIndicator: boolean = false
 ): Promise<AxiosResponse> {
-  const payload = {
+  const payload: any = {
     messaging_product: 'whatsapp',
     status: 'read',
     message_id: messageId,
   };
 
+  if (typingIndicator) {
+    payload.typing_indicator = { type: 'text' };
+  }
+
   return axios.post(url, payload, {
     headers: getHeaders(token),
     timeout: TIMEOUT,
@@ -141,6 +146,33 @@ export async function sendInteractiveMessage(
   });
 }
 
+/**
+ * Send reaction to a message (an empty emoji removes the reaction)
+ */
+export async function sendReaction(
+  url: string,
+  token: string,
+  phoneNumber: string,
+  messageId: string,
+  emoji: string
+): Promise<AxiosResponse> {
+  const payload = {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to: phoneNumber,
+    type: 'reaction',
+    reaction: {
+      message_id: messageId,
+      emoji,
+    },
+  };
+
+  return axios.post(url, payload, {
+    headers: getHeaders(token),
+    timeout: TIMEOUT,
+  });
+}
+
 /**
  * Send template message
  */
@@ -178,17 +210,29 @@ export async function sendMediaMessage(
   token: string,
   phoneNumber: string,
   mediaPath: string,
-  mediaType: 'image' | 'video' | 'audio' | 'document' | 'sticker' = 'image',
-  caption?: string
+  mediaType: MediaType = 'image',
+  caption?: string,
+  fileName?: string
 ): Promise<AxiosResponse> {
+  const media: Record<string, string> = isLink(mediaPath)
+    ? { link: mediaPath }
+    : { id: mediaPath };
+
+  // Audio and stickers cannot have captions
+  if (caption && mediaType !== 'audio' && mediaType !== 'sticker') {
+    media.caption = caption;
+  }
+
+  if (fileName && mediaType === 'document') {
+    media.filename = fileName;
+  }
+
   const payload: any = {
     messaging_product: 'whatsapp',
     to: phoneNumber,
     recipient_type: 'individual',
     type: mediaType,
-    [mediaType]: isLink(mediaPath)
-      ? { link: mediaPath, caption }
-      : { id: mediaPath, caption },
+    [mediaType]: media,
   };
 
   return axios.post(url, payload, {
@@ -197,6 +241,34 @@ export async function sendMediaMessage(
   });
 }
 
+/**
+ * Send contacts message
+ */
+export async function sendContactsMessage(
+  url: string,
+  token: string,
+  phoneNumber: string,
+  contacts: SharedContact[],
+  msgId?: string
+): Promise<AxiosResponse> {
+  const payload: any = {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to: phoneNumber,
+    type: 'contacts',
+    contacts,
+  };
+
+  if (msgId) {
+    payload.context = { message_id: msgId };
+  }
+
+  return axios.post(url, payload, {
+    headers: getHeaders(token),
+    timeout: TIMEOUT,
+  });
+}
+
 /**
  * Send location message
  */
@@ -233,16 +305,26 @@ export async function sendLocationMessage(
 
 /**
  * Upload media file
+ * @param file - File path or file content
+ * @param fileName - File name sent with Buffer content
  */
 export async function uploadMedia(
   url: string,
   token: string,
-  filePath: string,
-  mimeType: string
+  file: string | Buffer,
+  mimeType: string,
+  fileName?: string
 ): Promise<AxiosResponse> {
   const form = new FormData();
   form.append('messaging_product', 'whatsapp');
-  form.append('file', createReadStream(filePath));
+  if (typeof file === 'string') {
+    form.append('file', createReadStream(file));
+  } else {
+    form.append('file', file, {
+      filename: fileName || 'file',
+      contentType: mimeType,
+    });
+  }
   form.append('type', mimeType);
 
   return axios.post(url, form, {
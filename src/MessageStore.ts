@@ -0,0 +1,86 @@
+/**
+ * Message Stores
+ * Remember sent messages so replies can be matched to what was quoted
+ */
+
+import type { SentMessage } from './types';
+import { TtlMap } from './utils/ttlMap';
+
+/**
+ * Store used by the client to log sent messages by their message id
+ * Implement this interface to keep the log in a database.
+ *
+ * @example
+ * ```typescript
+ * const store: MessageStore = {
+ *   async set(message) {
+ *     await db.upsert('sent_messages', message);
+ *   },
+ *   async get(id) {
+ *     return db.findOne('sent_messages', { id });
+ *   },
+ * };
+ * ```
+ */
+export interface MessageStore {
+  /**
+   * Record a sent message
+   */
+  set(message: SentMessage): Promise<void>;
+
+  /**
+   * Look up a sent message
+   * @param id - Message id returned by the API (wamid)
+   */
+  get(id: string): Promise<SentMessage | undefined>;
+}
+
+/**
+ * In-memory store options
+ */
+export interface MemoryMessageStoreOptions {
+  ttl?: number;
+  maxSize?: number;
+}
+
+/**
+ * In-memory Message Store
+ * Keeps messages for a limited time (default 7 days) and evicts the oldest
+ * messages once the size limit (default 1000) is reached.
+ */
+export class MemoryMessageStore implements MessageStore {
+  private messages: TtlMap<SentMessage>;
+
+  /**
+   * Creates a new in-memory store
+   * @param options - Time to live in milliseconds and maximum number of messages
+   */
+  constructor(options: MemoryMessageStoreOptions = {}) {
+    this.messages = new TtlMap(
+      options.ttl ?? 7 * 24 * 60 * 60 * 1000,
+      options.maxSize ?? 1000
+    );
+  }
+
+  async set(message: SentMessage): Promise<void> {
+    this.messages.set(message.id, message);
+  }
+
+  async get(id: string): Promise<SentMessage | undefined> {
+    return this.messages.get(id);
+  }
+
+  /**
+   * Number of messages currently stored
+   */
+  get size(): number {
+    return this.messages.size;
+  }
+
+  /**
+   * Remove every message
+   */
+  clear(): void {
+    this.messages.clear();
+  }
+}
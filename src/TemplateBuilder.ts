@@ -0,0 +1,379 @@
+/**
+ * Template Message Builder
+ * Builds and validates the components of template messages
+ */
+
+import type {
+  TemplateBodyParameter,
+  TemplateButtonParameter,
+  TemplateButtonSubType,
+  TemplateComponent,
+  TemplateHeaderParameter,
+  TemplateMedia,
+  TemplatePayload,
+} from './types';
+import { isLink } from './utils/helpers';
+
+const MAX_HEADER_TEXT_LENGTH = 60;
+const MAX_BODY_TEXT_LENGTH = 1024;
+const MAX_BUTTONS = 10;
+const MAX_COUPON_CODE_LENGTH = 15;
+const MAX_URL_SUFFIX_LENGTH = 2000;
+const MAX_PAYLOAD_LENGTH = 256;
+
+/**
+ * Convert a URL or media id into a media parameter
+ */
+function toTemplateMedia(media: string): TemplateMedia {
+  return isLink(media) ? { link: media } : { id: media };
+}
+
+/**
+ * Check a text parameter
+ * WhatsApp rejects newlines, tabs and more than 4 consecutive spaces in
+ * parameters.
+ */
+function checkText(text: string, maxLength: number, label: string): void {
+  if (!text) {
+    throw new Error(`${label} cannot be empty`);
+  }
+  if (text.length > maxLength) {
+    throw new Error(`${label} must be ${maxLength} characters or less`);
+  }
+  if (/[\n\t]| {5,}/.test(text)) {
+    throw new Error(
+      `${label} cannot contain newlines, tabs or more than 4 consecutive spaces`
+    );
+  }
+}
+
+/**
+ * Template Builder
+ * Header, body and button parameters are checked as they are added; button
+ * indices refer to the button's position in the approved template, so
+ * buttons without parameters (phone numbers, static URLs) are skipped.
+ *
+ * @example
+ * ```typescript
+ * const template = new TemplateBuilder('order_shipped', 'en_US')
+ *   .setHeaderImage('https://example.com/parcel.jpg')
+ *   .addBodyText('Ana')
+ *   .addBodyCurrency(42.5, 'USD', '$42.50')
+ *   .addBodyDateTime('January 31, 2025')
+ *   .addUrlButton(0, 'orders/1234')
+ *   .addQuickReplyButton(1, 'CONTACT_SUPPORT');
+ *
+ * await client.sendTemplateMessage('1234567890', template);
+ * ```
+ */
+export class TemplateBuilder {
+  public name: string;
+  public language: string;
+  private header?: TemplateHeaderParameter;
+  private body: TemplateBodyParameter[] = [];
+  private buttons: Map<number, TemplateComponent> = new Map();
+
+  /**
+   * Creates a new template builder
+   * @param name - Template name
+   * @param language - Template language code (default 'en_US')
+   */
+  constructor(name: string, language: string = 'en_US') {
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+
+    this.name = name;
+    this.language = language;
+  }
+
+  /**
+   * Set the header's text parameter
+   * @param text - Parameter value (max 60 characters)
+   * @param parameterName - Parameter name, for templates with named parameters
+   */
+  setHeaderText(text: string, parameterName?: string): this {
+    checkText(text, MAX_HEADER_TEXT_LENGTH, 'Header text');
+    return this.setHeader({
+      type: 'text',
+      text,
+      ...(parameterName && { parameter_name: parameterName }),
+    });
+  }
+
+  /**
+   * Set the header image
+   * @param image - Image URL or media id
+   */
+  setHeaderImage(image: string): this {
+    return this.setHeader({ type: 'image', image: toTemplateMedia(image) });
+  }
+
+  /**
+   * Set the header video
+   * @param video - Video URL or media id
+   */
+  setHeaderVideo(video: string): this {
+    return this.setHeader({ type: 'video', video: toTemplateMedia(video) });
+  }
+
+  /**
+   * Set the header document
+   * @param document - Document URL or media id
+   * @param fileName - File name shown to the user
+   */
+  setHeaderDocument(document: string, fileName?: string): this {
+    return this.setHeader({
+      type: 'document',
+      document: {
+        ...toTemplateMedia(document),
+        ...(fileName && { filename: fileName }),
+      },
+    });
+  }
+
+  /**
+   * Set the header location
+   */
+  setHeaderLocation(
+    latitude: number,
+    longitude: number,
+    name?: string,
+    address?: string
+  ): this {
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error('Header location coordinates are out of range');
+    }
+
+    return this.setHeader({
+      type: 'location',
+      location: {
+        latitude: latitude.toString(),
+        longitude: longitude.toString(),
+        ...(name && { name }),
+        ...(address && { address }),
+      },
+    });
+  }
+
+  /**
+   * Add a body text parameter
+   * @param text - Parameter value
+   * @param parameterName - Parameter name, for templates with named parameters
+   */
+  addBodyText(text: string, parameterName?: string): this {
+    checkText(text, MAX_BODY_TEXT_LENGTH, 'Body text');
+    return this.addBody({
+      type: 'text',
+      text,
+      ...(parameterName && { parameter_name: parameterName }),
+    });
+  }
+
+  /**
+   * Add a body currency parameter
+   * @param amount - Amount in the currency's main unit (e.g. 42.5)
+   * @param code - ISO 4217 currency code
+   * @param fallbackValue - Text shown when the amount cannot be localized
+   * @param parameterName - Parameter name, for templates with named parameters
+   */
+  addBodyCurrency(
+    amount: number,
+    code: string,
+    fallbackValue?: string,
+    parameterName?: string
+  ): this {
+    if (!Number.isFinite(amount)) {
+      throw new Error('Currency amount must be a finite number');
+    }
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new Error('Currency code must be an ISO 4217 code such as USD');
+    }
+
+    return this.addBody({
+      type: 'currency',
+      currency: {
+        fallback_value: fallbackValue || `${amount.toFixed(2)} ${code}`,
+        code,
+        amount_1000: Math.round(amount * 1000),
+      },
+      ...(parameterName && { parameter_name: parameterName }),
+    });
+  }
+
+  /**
+   * Add a body date and time parameter
+   * @param fallbackValue - Date and time as displayed
+   * @param parameterName - Parameter name, for templates with named parameters
+   */
+  addBodyDateTime(fallbackValue: string, parameterName?: string): this {
+    checkText(fallbackValue, MAX_BODY_TEXT_LENGTH, 'Date time');
+    return this.addBody({
+      type: 'date_time',
+      date_time: { fallback_value: fallbackValue },
+      ...(parameterName && { parameter_name: parameterName }),
+    });
+  }
+
+  /**
+   * Set the payload of a quick reply button
+   * @param index - Button position in the template
+   * @param payload - Payload returned in the button message
+   */
+  addQuickReplyButton(index: number, payload: string): this {
+    if (!payload || payload.length > MAX_PAYLOAD_LENGTH) {
+      throw new Error(
+        `Quick reply payload must be 1 to ${MAX_PAYLOAD_LENGTH} characters`
+      );
+    }
+    return this.addButton(index, 'quick_reply', { type: 'payload', payload });
+  }
+
+  /**
+   * Set the suffix of a dynamic URL button
+   * @param index - Button position in the template
+   * @param suffix - Text appended to the template's URL
+   */
+  addUrlButton(index: number, suffix: string): this {
+    if (!suffix || suffix.length > MAX_URL_SUFFIX_LENGTH) {
+      throw new Error(
+        `URL suffix must be 1 to ${MAX_URL_SUFFIX_LENGTH} characters`
+      );
+    }
+    return this.addButton(index, 'url', { type: 'text', text: suffix });
+  }
+
+  /**
+   * Set the code of a copy code button
+   * @param index - Button position in the template
+   * @param code - Code copied by the button (max 15 characters)
+   */
+  addCopyCodeButton(index: number, code: string): this {
+    if (!code || code.length > MAX_COUPON_CODE_LENGTH) {
+      throw new Error(
+        `Coupon code must be 1 to ${MAX_COUPON_CODE_LENGTH} characters`
+      );
+    }
+    return this.addButton(index, 'copy_code', {
+      type: 'coupon_code',
+      coupon_code: code,
+    });
+  }
+
+  /**
+   * Set the token and initial data of a flow button
+   * @param index - Button position in the template
+   * @param options - Flow token and data for the first screen
+   */
+  addFlowButton(
+    index: number,
+    options: {
+      flowToken?: string;
+      flowActionData?: Record<string, unknown>;
+    } = {}
+  ): this {
+    return this.addButton(index, 'flow', {
+      type: 'action',
+      action: {
+        ...(options.flowToken && { flow_token: options.flowToken }),
+        ...(options.flowActionData && {
+          flow_action_data: options.flowActionData,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Build the template components
+   * @throws Error if named and positional body parameters are mixed
+   */
+  build(): TemplateComponent[] {
+    const named = this.body.filter((p) => p.parameter_name).length;
+    if (named > 0 && named < this.body.length) {
+      throw new Error('Body parameters must be either all named or positional');
+    }
+
+    const components: TemplateComponent[] = [];
+
+    if (this.header) {
+      components.push({ type: 'header', parameters: [this.header] });
+    }
+
+    if (this.body.length > 0) {
+      components.push({ type: 'body', parameters: [...this.body] });
+    }
+
+    const indices = Array.from(this.buttons.keys()).sort((a, b) => a - b);
+    for (const index of indices) {
+      components.push(this.buttons.get(index)!);
+    }
+
+    return components;
+  }
+
+  /**
+   * Get the template object posted by sendTemplateMessage
+   */
+  toJSON(): TemplatePayload {
+    return {
+      name: this.name,
+      language: { code: this.language },
+      components: this.build(),
+    };
+  }
+
+  /**
+   * Set the header parameter (a template has at most one)
+   */
+  private setHeader(parameter: TemplateHeaderParameter): this {
+    if (this.header) {
+      throw new Error('Template header is already set');
+    }
+    this.header = parameter;
+    return this;
+  }
+
+  /**
+   * Add a body parameter
+   */
+  private addBody(parameter: TemplateBodyParameter): this {
+    const name = parameter.parameter_name;
+    if (name && !/^[a-z0-9_]+$/.test(name)) {
+      throw new Error(
+        'Parameter names may only contain lowercase letters, digits and underscores'
+      );
+    }
+    if (name && this.body.some((p) => p.parameter_name === name)) {
+      throw new Error(`Body parameter ${name} is already set`);
+    }
+
+    this.body.push(parameter);
+    return this;
+  }
+
+  /**
+   * Add a button component
+   */
+  private addButton(
+    index: number,
+    subType: TemplateButtonSubType,
+    parameter: TemplateButtonParameter
+  ): this {
+    if (!Number.isInteger(index) || index < 0 || index >= MAX_BUTTONS) {
+      throw new Error(
+        `Button index must be an integer from 0 to ${MAX_BUTTONS - 1}`
+      );
+    }
+    if (this.buttons.has(index)) {
+      throw new Error(`Button ${index} is already set`);
+    }
+
+    this.buttons.set(index, {
+      type: 'button',
+      sub_type: subType,
+      index: index.toString(),
+      parameters: [parameter],
+    });
+    return this;
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * Message Template Management
+ * Lists, creates, edits and deletes templates on a WhatsApp Business
+ * Account's message_templates edge
+ */
+
+import axios from 'axios';
+import type {
+  CreateTemplateRequest,
+  EditTemplateRequest,
+  MessageTemplate,
+  TemplateCategory,
+  TemplateComponentDefinition,
+  TemplateListOptions,
+  TemplateListPage,
+} from './types';
+import { TemplateValidationError } from './errors';
+
+const TIMEOUT = 30000; // 30 seconds
+
+const CATEGORIES: TemplateCategory[] = [
+  'AUTHENTICATION',
+  'MARKETING',
+  'UTILITY',
+];
+
+const MAX_HEADER_LENGTH = 60;
+const MAX_BODY_LENGTH = 1024;
+const MAX_FOOTER_LENGTH = 60;
+const MAX_BUTTONS = 10;
+const MAX_BUTTON_TEXT_LENGTH = 25;
+const MAX_URL_LENGTH = 2000;
+const MAX_PHONE_LENGTH = 20;
+const MAX_COUPON_CODE_LENGTH = 15;
+
+/**
+ * Template Manager Configuration
+ */
+export interface TemplateManagerOptions {
+  wabaId: string;
+  token: string;
+  version?: number;
+}
+
+/**
+ * Get the variables of a template text ({{1}} or {{name}})
+ */
+function getVariables(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{\s*([^{}]+?)\s*\}\}/g), (m) => m[1]);
+}
+
+/**
+ * Check the variables of a text and their example values
+ */
+function checkVariables(
+  label: string,
+  variables: string[],
+  named: boolean,
+  exampleCount: number,
+  exampleNames: string[],
+  errors: string[]
+): void {
+  if (variables.length === 0) {
+    return;
+  }
+
+  if (named) {
+    const invalid = variables.filter((v) => !/^[a-z0-9_]+$/.test(v));
+    if (invalid.length > 0) {
+      errors.push(
+        `${label} variable names must be lowercase letters, digits and underscores: ${invalid.join(', ')}`
+      );
+    }
+    const missing = variables.filter((v) => !exampleNames.includes(v));
+    if (missing.length > 0) {
+      errors.push(`${label} needs examples for ${missing.join(', ')}`);
+    }
+    return;
+  }
+
+  const numbers = Array.from(new Set(variables)).map(Number);
+  const sequential = numbers
+    .slice()
+    .sort((a, b) => a - b)
+    .every((n, i) => n === i + 1);
+  if (!sequential) {
+    errors.push(
+      `${label} variables must be numbered {{1}}, {{2}}, ... in order`
+    );
+  } else if (exampleCount !== numbers.length) {
+    errors.push(
+      `${label} has ${numbers.length} variables but ${exampleCount} examples`
+    );
+  }
+}
+
+/**
+ * Check the buttons component
+ */
+function checkButtons(
+  buttons: Extract<TemplateComponentDefinition, { type: 'BUTTONS' }>['buttons'],
+  errors: string[]
+): void {
+  if (buttons.length === 0 || buttons.length > MAX_BUTTONS) {
+    errors.push(`Templates have 1 to ${MAX_BUTTONS} buttons`);
+  }
+
+  const count = (type: string): number =>
+    buttons.filter((b) => b.type === type).length;
+  if (count('URL') > 2) errors.push('Templates have at most 2 URL buttons');
+  if (count('PHONE_NUMBER') > 1) {
+    errors.push('Templates have at most 1 phone number button');
+  }
+  if (count('COPY_CODE') > 1) {
+    errors.push('Templates have at most 1 copy code button');
+  }
+
+  buttons.forEach((button, index) => {
+    const label = `Button ${index}`;
+    if (
+      'text' in button &&
+      button.text !== undefined &&
+      (!button.text || button.text.length > MAX_BUTTON_TEXT_LENGTH)
+    ) {
+      errors.push(
+        `${label} text must be 1 to ${MAX_BUTTON_TEXT_LENGTH} characters`
+      );
+    }
+
+    switch (button.type) {
+      case 'URL': {
+        const variables = getVariables(button.url || '');
+        if (!button.url || button.url.length > MAX_URL_LENGTH) {
+          errors.push(`${label} URL must be 1 to ${MAX_URL_LENGTH} characters`);
+        } else if (
+          variables.length > 1 ||
+          (variables.length === 1 && !/\{\{\s*1\s*\}\}$/.test(button.url))
+        ) {
+          errors.push(`${label} URL may only end with a {{1}} variable`);
+        } else if (variables.length === 1 && !button.example?.length) {
+          errors.push(`${label} URL needs an example`);
+        }
+        break;
+      }
+      case 'PHONE_NUMBER':
+        if (
+          !button.phone_number ||
+          button.phone_number.length > MAX_PHONE_LENGTH
+        ) {
+          errors.push(
+            `${label} phone number must be 1 to ${MAX_PHONE_LENGTH} characters`
+          );
+        }
+        break;
+      case 'COPY_CODE':
+        if (!button.example || button.example.length > MAX_COUPON_CODE_LENGTH) {
+          errors.push(
+            `${label} example code must be 1 to ${MAX_COUPON_CODE_LENGTH} characters`
+          );
+        }
+        break;
+      case 'FLOW':
+        if (
+          [button.flow_id, button.flow_name, button.flow_json].filter(Boolean)
+            .length !== 1
+        ) {
+          errors.push(
+            `${label} needs exactly one of flow_id, flow_name or flow_json`
+          );
+        }
+        break;
+    }
+  });
+}
+
+/**
+ * Collect the structural problems of template components
+ */
+function checkComponents(
+  components: TemplateComponentDefinition[],
+  category: TemplateCategory | undefined,
+  named: boolean,
+  errors: string[]
+): void {
+  for (const type of ['HEADER', 'BODY', 'FOOTER', 'BUTTONS']) {
+    if (components.filter((c) => c.type === type).length > 1) {
+      errors.push(`Templates have at most one ${type} component`);
+    }
+  }
+
+  const body = components.find((c) => c.type === 'BODY');
+  if (!body) {
+    errors.push('Templates need a BODY component');
+  }
+
+  for (const component of components) {
+    switch (component.type) {
+      case 'HEADER': {
+        if (component.format !== 'TEXT') break;
+
+        const variables = getVariables(component.text);
+        if (!component.text || component.text.length > MAX_HEADER_LENGTH) {
+          errors.push(
+            `Header text must be 1 to ${MAX_HEADER_LENGTH} characters`
+          );
+        }
+        if (variables.length > 1) {
+          errors.push('Header text has at most one variable');
+        }
+        checkVariables(
+          'Header',
+          variables,
+          named,
+          component.example?.header_text?.length ?? 0,
+          (component.example?.header_text_named_params || []).map(
+            (p) => p.param_name
+          ),
+          errors
+        );
+        break;
+      }
+      case 'BODY': {
+        if (component.text === undefined) {
+          if (category !== 'AUTHENTICATION') {
+            errors.push('Body text is required');
+          }
+          break;
+        }
+
+        const text = component.text.trim();
+        if (!text || component.text.length > MAX_BODY_LENGTH) {
+          errors.push(`Body text must be 1 to ${MAX_BODY_LENGTH} characters`);
+        }
+        if (/^\{\{/.test(text) || /\}\}$/.test(text)) {
+          errors.push('Body text cannot start or end with a variable');
+        }
+        checkVariables(
+          'Body',
+          getVariables(text),
+          named,
+          component.example?.body_text?.[0]?.length ?? 0,
+          (component.example?.body_text_named_params || []).map(
+            (p) => p.param_name
+          ),
+          errors
+        );
+        break;
+      }
+      case 'FOOTER':
+        if (component.text !== undefined) {
+          if (component.text.length > MAX_FOOTER_LENGTH) {
+            errors.push(
+              `Footer text must be ${MAX_FOOTER_LENGTH} characters or less`
+            );
+          }
+          if (getVariables(component.text).length > 0) {
+            errors.push('Footer text cannot have variables');
+          }
+        }
+        break;
+      case 'BUTTONS':
+        checkButtons(component.buttons, errors);
+        break;
+    }
+  }
+}
+
+/**
+ * Check a new template against WhatsApp's structural rules
+ * Covers names, categories, component counts, lengths, variable numbering
+ * and examples, and button limits; content is still reviewed by Meta.
+ * @throws TemplateValidationError listing every problem found
+ */
+export function validateTemplate(template: CreateTemplateRequest): void {
+  const errors: string[] = [];
+
+  if (!/^[a-z0-9_]{1,512}$/.test(template.name)) {
+    errors.push(
+      'Template name must be 1 to 512 lowercase letters, digits and underscores'
+    );
+  }
+  if (!template.language) {
+    errors.push('Template language is required');
+  }
+  if (!CATEGORIES.includes(template.category)) {
+    errors.push(`Template category must be one of ${CATEGORIES.join(', ')}`);
+  }
+
+  checkComponents(
+    template.components || [],
+    template.category,
+    template.parameter_format === 'NAMED',
+    errors
+  );
+
+  if (errors.length > 0) {
+    throw new TemplateValidationError(errors);
+  }
+}
+
+/**
+ * Template Manager
+ * Manages the message templates of a WhatsApp Business Account (WABA). New
+ * and edited templates are validated locally before they are submitted.
+ *
+ * @example
+ * ```typescript
+ * const client = new WhatsApp({ numberId, token, wabaId: '1029384756' });
+ *
+ * await client.templates.create({
+ *   name: 'order_shipped',
+ *   language: 'en_US',
+ *   category: 'UTILITY',
+ *   components: [
+ *     {
+ *       type: 'BODY',
+ *       text: 'Hi {{1}}, your order {{2}} is on its way.',
+ *       example: { body_text: [['Ana', '#1234']] },
+ *     },
+ *   ],
+ * });
+ *
+ * const { data } = await client.templates.list({ status: 'REJECTED' });
+ * ```
+ */
+export class TemplateManager {
+  public wabaId: string;
+  private token: string;
+  private baseUrl: string;
+
+  /**
+   * Creates a new template manager
+   * @param options - WABA id, access token and API version
+   */
+  constructor(options: TemplateManagerOptions) {
+    if (!options.wabaId) {
+      throw new Error('A WhatsApp Business Account id is required');
+    }
+
+    this.wabaId = options.wabaId;
+    this.token = options.token;
+    this.baseUrl = `https://graph.facebook.com/v${options.version || 21}.0`;
+  }
+
+  /**
+   * List one page of templates
+   * @param options - Filters, fields, page size and paging cursors
+   */
+  async list(options: TemplateListOptions = {}): Promise<TemplateListPage> {
+    const { fields, ...filters } = options;
+    const response = await axios.get(this.templatesUrl, {
+      headers: this.headers,
+      timeout: TIMEOUT,
+      params: {
+        ...filters,
+        ...(fields && { fields: fields.join(',') }),
+      },
+    });
+    return response.data;
+  }
+
+  /**
+   * List every template matching the filters, following the paging cursors
+   */
+  async listAll(
+    options: Omit<TemplateListOptions, 'after' | 'before'> = {}
+  ): Promise<MessageTemplate[]> {
+    const templates: MessageTemplate[] = [];
+    let after: string | undefined;
+
+    do {
+      const page = await this.list({ ...options, after });
+      templates.push(...page.data);
+      after = page.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (after);
+
+    return templates;
+  }
+
+  /**
+   * Get a template by id
+   */
+  async getById(templateId: string): Promise<MessageTemplate> {
+    const response = await axios.get(`${this.baseUrl}/${templateId}`, {
+      headers: this.headers,
+      timeout: TIMEOUT,
+    });
+    return response.data;
+  }
+
+  /**
+   * Get a template by name
+   * @param language - Language code; without it every translation is returned
+   * @returns Templates with exactly this name
+   */
+  async getByName(name: string, language?: string): Promise<MessageTemplate[]> {
+    const templates = await this.listAll({ name, language });
+    return templates.filter(
+      (t) => t.name === name && (!language || t.language === language)
+    );
+  }
+
+  /**
+   * Submit a new template for review
+   * @returns The template id, its review status and category
+   * @throws TemplateValidationError if the template is structurally invalid
+   */
+  async create(
+    template: CreateTemplateRequest
+  ): Promise<{ id: string; status: string; category: TemplateCategory }> {
+    validateTemplate(template);
+
+    const response = await axios.post(this.templatesUrl, template, {
+      headers: this.headers,
+      timeout: TIMEOUT,
+    });
+    return response.data;
+  }
+
+  /**
+   * Edit a template's category or components
+   * Components replace the existing ones and are validated as a whole.
+   * @throws TemplateValidationError if the changes are structurally invalid
+   */
+  async edit(
+    templateId: string,
+    changes: EditTemplateRequest
+  ): Promise<{ success: boolean }> {
+    const errors: string[] = [];
+    if (changes.category && !CATEGORIES.includes(changes.category)) {
+      errors.push(`Template category must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (changes.components) {
+      checkComponents(
+        changes.components,
+        changes.category,
+        changes.parameter_format === 'NAMED',
+        errors
+      );
+    }
+    if (errors.length > 0) {
+      throw new TemplateValidationError(errors);
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/${templateId}`,
+      changes,
+      { headers: this.headers, timeout: TIMEOUT }
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete every language of a template
+   */
+  async deleteByName(name: string): Promise<{ success: boolean }> {
+    const response = await axios.delete(this.templatesUrl, {
+      headers: this.headers,
+      timeout: TIMEOUT,
+      params: { name },
+    });
+    return response.data;
+  }
+
+  /**
+   * Delete a single template (one language) by its id
+   * @param hsmId - Template id
+   * @param name - Template name, required by the API alongside the id
+   */
+  async deleteById(hsmId: string, name: string): Promise<{ success: boolean }> {
+    const response = await axios.delete(this.templatesUrl, {
+      headers: this.headers,
+      timeout: TIMEOUT,
+      params: { hsm_id: hsmId, name },
+    });
+    return response.data;
+  }
+
+  /**
+   * URL of the message_templates edge
+   */
+  private get templatesUrl(): string {
+    return `${this.baseUrl}/${this.wabaId}/message_templates`;
+  }
+
+  /**
+   * Headers for Graph API requests
+   */
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${this.token}`,
+    };
+  }
+}
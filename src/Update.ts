@@ -6,10 +6,25 @@
 import type { AxiosResponse } from 'axios';
 import type {
   WebhookValue,
+  WebhookContact,
   WhatsAppMessage,
+  SharedContact,
+  FlowResponse,
+  Order,
+  Referral,
+  MessageContext,
+  SentMessage,
+  SystemMessage,
+  WebhookError,
   SendMessageOptions,
   SendMediaOptions,
+  MediaSource,
 } from './types';
+import type { ContactCard } from './ContactCard';
+import type { TemplateBuilder } from './TemplateBuilder';
+
+// Typing indicators disappear after 25 seconds
+const TYPING_REFRESH_INTERVAL = 20000;
 
 /**
  * Update class - encapsulates an incoming WhatsApp message
@@ -17,11 +32,10 @@ import type {
 export class Update {
   public bot: any; // WhatsAppClient - using any to avoid circular dependency
   public value: WebhookValue;
+  public phoneNumberId: string;
+  public displayPhoneNumber: string;
   public message: WhatsAppMessage;
-  public user: {
-    profile: { name: string };
-    wa_id: string;
-  };
+  public user: WebhookContact;
   public userDisplayName: string;
   public userPhoneNumber: string;
   public messageId: string;
@@ -36,15 +50,42 @@ export class Update {
   public locName?: string;
   public locLatitude?: number;
   public locLongitude?: number;
+  public contacts?: SharedContact[];
+  public reactionMessageId?: string;
+  public reactionEmoji?: string;
+  public buttonPayload?: string;
+  public buttonText?: string;
+  public flowResponse?: FlowResponse;
+  public order?: Order;
+  public orderTotal?: number;
+  public referral?: Referral;
+  public replyTo?: MessageContext;
+  public system?: SystemMessage;
+  public errors?: WebhookError[];
+  // Whether a read receipt was sent while handling this update
+  public isRead: boolean = false;
 
-  constructor(bot: any, value: WebhookValue) {
+  /**
+   * Creates a new update
+   * @param bot - Client that received the message
+   * @param value - Webhook value the message was delivered in
+   * @param message - Message this update represents (defaults to the first one)
+   */
+  constructor(bot: any, value: WebhookValue, message?: WhatsAppMessage) {
     this.bot = bot;
     this.value = value;
-    this.message = value.messages?.[0] || ({} as WhatsAppMessage);
-    this.user = value.contacts?.[0] || { profile: { name: '' }, wa_id: '' };
+    this.phoneNumberId = value.metadata?.phone_number_id || '';
+    this.displayPhoneNumber = value.metadata?.display_phone_number || '';
+    this.message = message || value.messages?.[0] || ({} as WhatsAppMessage);
+    this.user = value.contacts?.find(
+      (contact) => contact.wa_id === this.message.from
+    ) || { profile: { name: '' }, wa_id: this.message.from || '' };
     this.userDisplayName = this.user.profile?.name || '';
     this.userPhoneNumber = this.user.wa_id || '';
     this.messageId = this.message.id || '';
+    this.referral = this.message.referral;
+    this.replyTo = this.message.context;
+    this.errors = this.message.errors;
   }
 
   /**
@@ -64,7 +105,7 @@ export class Update {
    * Reply with media
    */
   async replyMedia(
-    mediaPath: string,
+    mediaPath: MediaSource,
     options: SendMediaOptions = {}
   ): Promise<AxiosResponse> {
     return this.bot.sendMediaMessage(this.userPhoneNumber, mediaPath, options);
@@ -74,7 +115,7 @@ export class Update {
    * Reply with template message
    */
   async replyTemplate(
-    templateName: string,
+    templateName: string | TemplateBuilder,
     components?: any[],
     languageCode?: string
   ): Promise<AxiosResponse> {
@@ -85,4 +126,63 @@ export class Update {
       languageCode
     );
   }
+
+  /**
+   * Reply with contact cards
+   */
+  async replyContacts(
+    contacts: ContactCard | SharedContact | Array<ContactCard | SharedContact>
+  ): Promise<AxiosResponse> {
+    return this.bot.sendContacts(this.userPhoneNumber, contacts);
+  }
+
+  /**
+   * React to the current message with an emoji
+   * @param emoji - Emoji to react with; an empty string removes the reaction
+   */
+  async react(emoji: string): Promise<AxiosResponse> {
+    return this.bot.sendReaction(this.userPhoneNumber, this.messageId, emoji);
+  }
+
+  /**
+   * Mark the message as read and show a typing indicator
+   * The indicator disappears after 25 seconds or when a reply is sent.
+   */
+  async showTyping(): Promise<AxiosResponse> {
+    this.isRead = true;
+    return this.bot.showTypingIndicator(this.messageId);
+  }
+
+  /**
+   * Show a typing indicator for a while before replying
+   * The indicator is refreshed so it stays visible for longer waits.
+   * @param ms - How long to type, in milliseconds
+   *
+   * @example
+   * ```typescript
+   * await update.simulateTyping(1500);
+   * await update.replyMessage('Let me check that for you');
+   * ```
+   */
+  async simulateTyping(ms: number): Promise<void> {
+    let remaining = ms;
+    while (remaining > 0) {
+      await this.showTyping();
+      const wait = Math.min(remaining, TYPING_REFRESH_INTERVAL);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      remaining -= wait;
+    }
+  }
+
+  /**
+   * Get the message this message quotes, as originally sent by the client
+   * Requires the client's message log (`messageLog` option).
+   * @returns The sent message, or undefined if it is not a reply or not logged
+   */
+  async getQuotedMessage(): Promise<SentMessage | undefined> {
+    if (!this.replyTo?.id) {
+      return undefined;
+    }
+    return this.bot.getSentMessage(this.replyTo.id);
+  }
 }
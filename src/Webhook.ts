@@ -0,0 +1,190 @@
+/**
+ * Webhook Request Handling
+ * Framework-independent verification and payload handling for webhook requests
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Readable } from 'stream';
+import type {
+  WebhookPayload,
+  WebhookRequest,
+  WebhookResponse,
+  WebhookOptions,
+  WebhookReceiver,
+} from './types';
+import { PayloadTooLargeError } from './errors';
+
+/**
+ * Default limit for webhook request bodies read from the stream
+ */
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Read a single query parameter from a parsed query object or URLSearchParams
+ */
+function getQueryParam(
+  query: WebhookRequest['query'],
+  key: string
+): string | undefined {
+  if (query instanceof URLSearchParams) {
+    return query.get(key) ?? undefined;
+  }
+
+  const value = query[key];
+  if (Array.isArray(value)) {
+    return value.length > 0 ? String(value[0]) : undefined;
+  }
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Read a complete request stream into a buffer
+ * @param maxSize - Reject with PayloadTooLargeError once more bytes arrive;
+ * the rest of the stream is discarded
+ */
+export function readBody(
+  stream: Readable,
+  maxSize: number = Infinity
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer | string): void => {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      if (size > maxSize) {
+        stream.off('data', onData);
+        stream.resume();
+        reject(new PayloadTooLargeError(maxSize));
+        return;
+      }
+      chunks.push(buffer);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Read a header value regardless of its casing
+ */
+export function getHeader(
+  headers: WebhookRequest['headers'],
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header of a webhook request
+ * The comparison runs in constant time.
+ * @param rawBody - Raw request body, exactly as received
+ * @param signature - Header value in the form 'sha256=<hex digest>'
+ * @param appSecret - App secret from the App Dashboard
+ * @returns true if the signature matches
+ *
+ * @example
+ * verifySignature(rawBody, req.headers['x-hub-signature-256'], process.env.APP_SECRET);
+ */
+export function verifySignature(
+  rawBody: Buffer | string,
+  signature: string | undefined,
+  appSecret: string
+): boolean {
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody).digest();
+  const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  return timingSafeEqual(received, expected);
+}
+
+/**
+ * Answer the webhook verification handshake (GET request)
+ * @param query - Request query parameters
+ * @param verifyToken - Verify token configured in the App Dashboard
+ * @returns The challenge on success, 403 otherwise
+ *
+ * @example
+ * verifyWebhook({ 'hub.mode': 'subscribe', 'hub.verify_token': 'secret', 'hub.challenge': '42' }, 'secret');
+ * // { status: 200, body: '42' }
+ */
+export function verifyWebhook(
+  query: WebhookRequest['query'],
+  verifyToken?: string
+): WebhookResponse {
+  const mode = getQueryParam(query, 'hub.mode');
+  const token = getQueryParam(query, 'hub.verify_token');
+  const challenge = getQueryParam(query, 'hub.challenge');
+
+  if (
+    verifyToken &&
+    mode === 'subscribe' &&
+    token === verifyToken &&
+    challenge !== undefined
+  ) {
+    return { status: 200, body: challenge };
+  }
+
+  return { status: 403, body: 'Forbidden' };
+}
+
+/**
+ * Handle a webhook HTTP request
+ * GET requests answer the verification handshake. POST requests are checked
+ * against the client's app secret, parsed and acknowledged right away while the
+ * payload is processed by the dispatcher (unless `awaitProcessing` is set).
+ */
+export async function handleWebhookRequest(
+  client: WebhookReceiver,
+  request: WebhookRequest,
+  options: WebhookOptions = {}
+): Promise<WebhookResponse> {
+  const method = request.method.toUpperCase();
+
+  if (method === 'GET') {
+    return verifyWebhook(request.query, options.verifyToken);
+  }
+
+  if (method !== 'POST') {
+    return { status: 405, body: 'Method Not Allowed' };
+  }
+
+  const rawBody = request.rawBody ?? '';
+  const signature = getHeader(request.headers, 'x-hub-signature-256');
+
+  if (!client.verifySignature(rawBody, signature)) {
+    return { status: 401, body: 'Invalid signature' };
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody.toString());
+  } catch {
+    return { status: 400, body: 'Invalid JSON payload' };
+  }
+
+  const processing = client.processUpdate(payload).catch((error) => {
+    // Handler errors must not affect the acknowledgement
+    options.onError?.(error);
+  });
+
+  if (options.awaitProcessing) {
+    await processing;
+  }
+
+  return { status: 200, body: 'EVENT_RECEIVED' };
+}
@@ -0,0 +1,167 @@
+/**
+ * Webhook Server
+ * Minimal HTTP server for receiving WhatsApp webhooks without a web framework
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { WebhookOptions, WebhookReceiver, WebhookRequest } from './types';
+import {
+  DEFAULT_MAX_BODY_SIZE,
+  handleWebhookRequest,
+  readBody,
+} from './Webhook';
+import { PayloadTooLargeError } from './errors';
+import type { FlowEndpoint } from './FlowEndpoint';
+
+/**
+ * Webhook Server Configuration
+ */
+export interface WebhookServerOptions extends WebhookOptions {
+  port?: number;
+  host?: string;
+  path?: string;
+  flowEndpoint?: FlowEndpoint;
+  flowPath?: string;
+}
+
+/**
+ * Webhook Server
+ * Handles the verification handshake and forwards payloads to the client.
+ * A FlowEndpoint set in the options is served on `flowPath` (default '/flow').
+ * Bodies larger than `maxBodySize` (default 1 MB) are answered with 413.
+ *
+ * @example
+ * ```typescript
+ * const server = new WebhookServer(client, {
+ *   port: 3000,
+ *   path: '/webhook',
+ *   verifyToken: process.env.WEBHOOK_VERIFY_TOKEN,
+ * });
+ * await server.start();
+ *
+ * // Later: stop accepting requests and wait for queued updates
+ * await server.stop();
+ * ```
+ */
+export class WebhookServer {
+  public path: string;
+  public flowPath: string;
+  private client: WebhookReceiver;
+  private options: WebhookServerOptions;
+  private server: Server;
+
+  /**
+   * Creates a new webhook server
+   * @param client - Client that processes incoming payloads
+   * @param options - Server options (default port 3000, paths '/webhook' and '/flow')
+   */
+  constructor(client: WebhookReceiver, options: WebhookServerOptions = {}) {
+    this.client = client;
+    this.options = options;
+    this.path = options.path || '/webhook';
+    this.flowPath = options.flowPath || '/flow';
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(() => {
+        if (!res.headersSent) {
+          res.statusCode = 500;
+        }
+        res.end();
+      });
+    });
+  }
+
+  /**
+   * Port the server is listening on
+   */
+  get port(): number {
+    const address = this.server.address() as AddressInfo | null;
+    return address ? address.port : (this.options.port ?? 3000);
+  }
+
+  /**
+   * Whether the server is accepting requests
+   */
+  get listening(): boolean {
+    return this.server.listening;
+  }
+
+  /**
+   * Start listening for requests
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 3000, this.options.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting requests and wait for queued updates to be processed
+   */
+  async stop(): Promise<void> {
+    if (this.server.listening) {
+      await new Promise<void>((resolve, reject) => {
+        this.server.close((error) => (error ? reject(error) : resolve()));
+        // Only available on Node 18.2 and later
+        this.server.closeIdleConnections?.();
+      });
+    }
+
+    await this.client.drain();
+  }
+
+  /**
+   * Handle a single HTTP request
+   */
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { flowEndpoint } = this.options;
+    const isFlowRequest =
+      Boolean(flowEndpoint) && url.pathname === this.flowPath;
+
+    if (url.pathname !== this.path && !isFlowRequest) {
+      res.statusCode = 404;
+      res.end('Not Found');
+      return;
+    }
+
+    let rawBody: Buffer | undefined;
+    if (req.method === 'POST') {
+      try {
+        rawBody = await readBody(
+          req,
+          this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+        );
+      } catch (error) {
+        if (!(error instanceof PayloadTooLargeError)) throw error;
+        res.statusCode = 413;
+        res.end('Payload Too Large');
+        return;
+      }
+    }
+
+    const request: WebhookRequest = {
+      method: req.method || 'GET',
+      query: url.searchParams,
+      rawBody,
+      headers: req.headers,
+    };
+
+    const response =
+      isFlowRequest && flowEndpoint
+        ? await flowEndpoint.handleRequest(request)
+        : await handleWebhookRequest(this.client, request, this.options);
+
+    res.statusCode = response.status;
+    res.setHeader('Content-Type', 'text/plain');
+    res.end(response.body);
+  }
+}
@@ -13,19 +13,51 @@ import type {
   HandlerFunction,
   HandlerOptions,
   InteractiveHandlerOptions,
+  StatusHandlerFunction,
+  StatusHandlerOptions,
+  ErrorHandlerFunction,
+  WebhookFieldHandlerFunction,
+  WebhookFieldValues,
+  TemplateStatusUpdate,
+  TemplateQualityUpdate,
+  PhoneNumberQualityUpdate,
+  AccountUpdate,
+  AccountAlert,
+  WebhookReceiver,
+  QueueStatus,
+  SentMessage,
+  MediaSource,
+  MediaType,
+  SharedContact,
 } from './types';
 import { Dispatcher } from './Dispatcher';
+import type { DedupStore } from './DedupStore';
+import { MemoryDedupStore } from './DedupStore';
+import type { MessageStore } from './MessageStore';
+import { MemoryMessageStore } from './MessageStore';
+import type { WebhookServerOptions } from './WebhookServer';
+import { WebhookServer } from './WebhookServer';
 import type { Update } from './Update';
-import type { UpdateHandler } from './Handlers';
+import type { UpdateHandler, AnyHandler } from './Handlers';
 import {
   MessageHandler,
   InteractiveQueryHandler,
+  TemplateButtonHandler,
+  FlowResponseHandler,
   ImageHandler,
   AudioHandler,
   VideoHandler,
   DocumentHandler,
   StickerHandler,
   LocationHandler,
+  ContactsHandler,
+  OrderHandler,
+  ReactionHandler,
+  SystemHandler,
+  UnknownHandler,
+  UnsupportedHandler,
+  StatusHandler,
+  WebhookFieldHandler,
 } from './Handlers';
 import {
   markAsRead as markMessageAsRead,
@@ -34,11 +66,30 @@ import {
   sendTemplateMessage,
   sendMediaMessage,
   sendLocationMessage,
+  sendContactsMessage,
+  sendReaction,
+  uploadMedia,
   getMediaUrl,
   downloadMedia,
   downloadMediaData,
 } from './Message';
-import { formatPhoneNumber } from './utils/helpers';
+import {
+  formatPhoneNumber,
+  getMimeTypeFromExtension,
+  isLink,
+} from './utils/helpers';
+import { ContactCard } from './ContactCard';
+import { TemplateBuilder } from './TemplateBuilder';
+import { TemplateManager } from './TemplateManager';
+import type { MediaContent } from './MediaUpload';
+import { MediaUploadCache, isLocalMedia, readMediaSource } from './MediaUpload';
+import {
+  getMaxMediaSize,
+  inferMediaType,
+  validateMedia,
+} from './MediaValidation';
+import { verifySignature } from './Webhook';
+import { InvalidSignatureError, MediaValidationError } from './errors';
 
 /**
  * WhatsApp Client Configuration
@@ -48,7 +99,14 @@ export interface WhatsAppConfig {
   token: string;
   markAsRead?: boolean;
   version?: number;
-  handlers?: Record<string, UpdateHandler>;
+  appSecret?: string;
+  dedup?: boolean | DedupStore;
+  concurrency?: number;
+  errorReply?: string;
+  handlers?: Record<string, AnyHandler>;
+  messageLog?: boolean | MessageStore;
+  mediaCacheTtl?: number;
+  wabaId?: string; // WhatsApp Business Account id, for template management
 }
 
 /**
@@ -70,14 +128,18 @@ export interface WhatsAppConfig {
  * await client.processUpdate(webhookPayload);
  * ```
  */
-export class WhatsApp {
+export class WhatsApp implements WebhookReceiver {
   public id: string;
   public token: string;
   public versionNumber: number;
   public baseUrl: string;
   public msgUrl: string;
   public mediaUrl: string;
+  public wabaId?: string;
+  private appSecret?: string;
   private dispatcher: Dispatcher;
+  private messageStore?: MessageStore;
+  private mediaCache?: MediaUploadCache;
 
   /**
    * Creates a new WhatsApp client instance
@@ -87,12 +149,39 @@ export class WhatsApp {
     this.id = config.numberId;
     this.token = config.token;
     this.versionNumber = config.version || 21;
+    this.appSecret = config.appSecret;
+    this.wabaId = config.wabaId;
 
     this.baseUrl = `https://graph.facebook.com/v${this.versionNumber}.0`;
     this.msgUrl = `${this.baseUrl}/${this.id}/messages`;
     this.mediaUrl = `${this.baseUrl}/${this.id}/media`;
 
-    this.dispatcher = new Dispatcher(this, config.markAsRead !== false);
+    // Deduplicate retried webhooks in memory unless a store is provided
+    let dedupStore: DedupStore | undefined;
+    if (config.dedup !== false) {
+      dedupStore =
+        typeof config.dedup === 'object'
+          ? config.dedup
+          : new MemoryDedupStore();
+    }
+
+    // Reuse uploaded media ids unless caching is disabled with 0
+    if (config.mediaCacheTtl !== 0) {
+      this.mediaCache = new MediaUploadCache({ ttl: config.mediaCacheTtl });
+    }
+
+    // Log sent messages only when asked to
+    if (config.messageLog === true) {
+      this.messageStore = new MemoryMessageStore();
+    } else if (config.messageLog) {
+      this.messageStore = config.messageLog;
+    }
+
+    this.dispatcher = new Dispatcher(this, config.markAsRead !== false, {
+      dedupStore,
+      concurrency: config.concurrency,
+      errorReply: config.errorReply,
+    });
 
     if (config.handlers) {
       for (const handler of Object.values(config.handlers)) {
@@ -111,6 +200,26 @@ export class WhatsApp {
     this.mediaUrl = `${this.baseUrl}/${this.id}/media`;
   }
 
+  /**
+   * Message templates of the WhatsApp Business Account
+   * @throws Error if the wabaId option is not set
+   *
+   * @example
+   * ```typescript
+   * const rejected = await client.templates.listAll({ status: 'REJECTED' });
+   * ```
+   */
+  get templates(): TemplateManager {
+    if (!this.wabaId) {
+      throw new Error('Set the wabaId option to manage message templates');
+    }
+    return new TemplateManager({
+      wabaId: this.wabaId,
+      token: this.token,
+      version: this.versionNumber,
+    });
+  }
+
   /**
    * Process incoming webhook update
    */
@@ -118,6 +227,59 @@ export class WhatsApp {
     return this.dispatcher.processUpdate(update);
   }
 
+  /**
+   * Verify and process a raw webhook request body
+   * @param rawBody - Raw request body, exactly as received
+   * @param signature - Value of the X-Hub-Signature-256 header
+   * @throws InvalidSignatureError if an app secret is configured and the signature does not match
+   */
+  async processRawUpdate(
+    rawBody: Buffer | string,
+    signature?: string
+  ): Promise<void> {
+    if (!this.verifySignature(rawBody, signature)) {
+      throw new InvalidSignatureError();
+    }
+
+    return this.processUpdate(JSON.parse(rawBody.toString()));
+  }
+
+  /**
+   * Check a webhook signature against the configured app secret
+   * Always returns true when no app secret is configured.
+   */
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean {
+    if (!this.appSecret) {
+      return true;
+    }
+    return verifySignature(rawBody, signature, this.appSecret);
+  }
+
+  /**
+   * Wait until every queued update has been processed
+   */
+  async drain(): Promise<void> {
+    return this.dispatcher.drain();
+  }
+
+  /**
+   * Start a webhook server that forwards payloads to this client
+   *
+   * @example
+   * ```typescript
+   * const server = await client.listen({
+   *   port: 3000,
+   *   path: '/webhook',
+   *   verifyToken: process.env.WEBHOOK_VERIFY_TOKEN,
+   * });
+   * ```
+   */
+  async listen(options: WebhookServerOptions = {}): Promise<WebhookServer> {
+    const server = new WebhookServer(this, options);
+    await server.start();
+    return server;
+  }
+
   /**
    * Mark message as read
    */
@@ -125,6 +287,14 @@ export class WhatsApp {
     return markMessageAsRead(this.msgUrl, this.token, message.id);
   }
 
+  /**
+   * Mark a message as read and show a typing indicator to its sender
+   * The indicator disappears after 25 seconds or when a reply is sent.
+   */
+  async showTypingIndicator(messageId: string): Promise<AxiosResponse> {
+    return markMessageAsRead(this.msgUrl, this.token, messageId, true);
+  }
+
   /**
    * Send text message
    */
@@ -136,67 +306,78 @@ export class WhatsApp {
     const formattedPhone = formatPhoneNumber(phoneNumber);
 
     if (options.replyMarkup) {
-      return sendInteractiveMessage(
-        this.msgUrl,
-        this.token,
-        formattedPhone,
-        text,
-        options.replyMarkup,
-        {
-          msgId: options.msgId,
-          header: options.header,
-          headerType: options.headerType,
-          footer: options.footer,
-        }
+      return this.logSent(
+        sendInteractiveMessage(
+          this.msgUrl,
+          this.token,
+          formattedPhone,
+          text,
+          options.replyMarkup,
+          {
+            msgId: options.msgId,
+            header: options.header,
+            headerType: options.headerType,
+            footer: options.footer,
+          }
+        )
       );
     }
 
-    return sendTextMessage(this.msgUrl, this.token, formattedPhone, text, {
-      msgId: options.msgId,
-      webPagePreview: options.webPagePreview,
-      tagMessage: options.tagMessage,
-    });
+    return this.logSent(
+      sendTextMessage(this.msgUrl, this.token, formattedPhone, text, {
+        msgId: options.msgId,
+        webPagePreview: options.webPagePreview,
+        tagMessage: options.tagMessage,
+      })
+    );
   }
 
   /**
    * Send template message
+   * @param template - Template name, or a TemplateBuilder holding the name,
+   * language and components
    */
   async sendTemplateMessage(
     phoneNumber: string,
-    templateName: string,
+    template: string | TemplateBuilder,
     components: TemplateComponent[] = [],
     languageCode: string = 'en_US'
   ): Promise<AxiosResponse> {
     const formattedPhone = formatPhoneNumber(phoneNumber);
 
-    return sendTemplateMessage(
-      this.msgUrl,
-      this.token,
-      formattedPhone,
-      templateName,
-      components,
-      languageCode
+    let templateName = template as string;
+    if (template instanceof TemplateBuilder) {
+      templateName = template.name;
+      components = template.build();
+      languageCode = template.language;
+    }
+
+    return this.logSent(
+      sendTemplateMessage(
+        this.msgUrl,
+        this.token,
+        formattedPhone,
+        templateName,
+        components,
+        languageCode
+      )
     );
   }
 
   /**
    * Send media message
+   * Local file paths, Buffers and streams are uploaded first. The media type
+   * is taken from `options.type` or inferred from the MIME type (passed or
+   * detected from the file extension); media ids without a known type are
+   * sent as images.
+   * @throws MediaValidationError if the media exceeds WhatsApp's limits for its type
    */
   async sendMediaMessage(
     phoneNumber: string,
-    mediaPath: string,
+    mediaPath: MediaSource,
     options: SendMediaOptions = {}
   ): Promise<AxiosResponse> {
-    const formattedPhone = formatPhoneNumber(phoneNumber);
-
-    return sendMediaMessage(
-      this.msgUrl,
-      this.token,
-      formattedPhone,
-      mediaPath,
-      'image',
-      options.caption
-    );
+    return this.sendMedia(phoneNumber, mediaPath, options);
   }
 
   /**
@@ -204,10 +385,15 @@ export class WhatsApp {
    */
   async sendImage(
     phoneNumber: string,
-    imagePath: string,
-    caption?: string
+    imagePath: MediaSource,
+    caption?: string,
+    options: SendMediaOptions = {}
   ): Promise<AxiosResponse> {
-    return this.sendMediaMessage(phoneNumber, imagePath, { caption });
+    return this.sendMedia(phoneNumber, imagePath, {
+      ...options,
+      caption,
+      type: 'image',
+    });
   }
 
   /**
@@ -215,18 +401,15 @@ export class WhatsApp {
    */
   async sendVideo(
     phoneNumber: string,
-    videoPath: string,
-    caption?: string
+    videoPath: MediaSource,
+    caption?: string,
+    options: SendMediaOptions = {}
   ): Promise<AxiosResponse> {
-    const formattedPhone = formatPhoneNumber(phoneNumber);
-    return sendMediaMessage(
-      this.msgUrl,
-      this.token,
-      formattedPhone,
-      videoPath,
-      'video',
-      caption
-    );
+    return this.sendMedia(phoneNumber, videoPath, {
+      ...options,
+      caption,
+      type: 'video',
+    });
   }
 
   /**
@@ -234,16 +417,13 @@ export class WhatsApp {
    */
   async sendAudio(
     phoneNumber: string,
-    audioPath: string
+    audioPath: MediaSource,
+    options: SendMediaOptions = {}
   ): Promise<AxiosResponse> {
-    const formattedPhone = formatPhoneNumber(phoneNumber);
-    return sendMediaMessage(
-      this.msgUrl,
-      this.token,
-      formattedPhone,
-      audioPath,
-      'audio'
-    );
+    return this.sendMedia(phoneNumber, audioPath, {
+      ...options,
+      type: 'audio',
+    });
   }
 
   /**
@@ -251,17 +431,203 @@ export class WhatsApp {
    */
   async sendDocument(
     phoneNumber: string,
-    documentPath: string,
-    caption?: string
+    documentPath: MediaSource,
+    caption?: string,
+    options: SendMediaOptions = {}
+  ): Promise<AxiosResponse> {
+    return this.sendMedia(phoneNumber, documentPath, {
+      ...options,
+      caption,
+      type: 'document',
+    });
+  }
+
+  /**
+   * Send sticker message
+   * Stickers are WebP images of at most 100 KB (500 KB when animated).
+   */
+  async sendSticker(
+    phoneNumber: string,
+    stickerPath: MediaSource,
+    options: SendMediaOptions = {}
+  ): Promise<AxiosResponse> {
+    return this.sendMedia(phoneNumber, stickerPath, {
+      ...options,
+      type: 'sticker',
+    });
+  }
+
+  /**
+   * Upload media and get its media id
+   * Uploads are cached by content hash, so sending the same content again
+   * reuses the media id until it expires.
+   * @param media - File path, Buffer or Readable stream
+   * @param options - MIME type (detected from the file name when omitted), file name and media type
+   * @throws MediaValidationError if the MIME type cannot be detected or the
+   * media exceeds WhatsApp's limits for its type
+   *
+   * @example
+   * ```typescript
+   * const mediaId = await client.uploadMedia('./invoice.pdf');
+   * const imageId = await client.uploadMedia(buffer, { mimeType: 'image/png' });
+   * ```
+   */
+  async uploadMedia(
+    media: MediaSource,
+    options: SendMediaOptions = {}
+  ): Promise<string> {
+    const content = await this.readMedia(media, options);
+    return this.uploadContent(content.data, content.mimeType, content.fileName);
+  }
+
+  /**
+   * Validate, upload if needed and send media
+   * Validation happens before any request is made.
+   */
+  private async sendMedia(
+    phoneNumber: string,
+    media: MediaSource,
+    options: SendMediaOptions
   ): Promise<AxiosResponse> {
     const formattedPhone = formatPhoneNumber(phoneNumber);
-    return sendMediaMessage(
-      this.msgUrl,
+    let mediaId: string;
+    let type: MediaType;
+    let fileName = options.fileName;
+
+    if (isLocalMedia(media)) {
+      const content = await this.readMedia(media, options);
+      type = content.type;
+      fileName = content.fileName;
+      mediaId = await this.uploadContent(
+        content.data,
+        content.mimeType,
+        content.fileName
+      );
+    } else {
+      // URLs and media ids: only the MIME type can be checked
+      mediaId = media as string;
+      const mimeType =
+        options.mimeType ||
+        (isLink(mediaId)
+          ? getMimeTypeFromExtension(mediaId.replace(/[?#].*$/, ''))
+          : undefined);
+      type = options.type || inferMediaType(mimeType) || 'image';
+      validateMedia(type, mimeType);
+    }
+
+    return this.logSent(
+      sendMediaMessage(
+        this.msgUrl,
+        this.token,
+        formattedPhone,
+        mediaId,
+        type,
+        options.caption,
+        fileName
+      )
+    );
+  }
+
+  /**
+   * Read local media, detect its MIME and media type and validate it
+   * @throws MediaValidationError if the MIME type cannot be detected or the
+   * media exceeds WhatsApp's limits for its type
+   */
+  private async readMedia(
+    media: MediaSource,
+    options: SendMediaOptions
+  ): Promise<MediaContent & { mimeType: string; type: MediaType }> {
+    const { data, fileName } = await readMediaSource(
+      media,
+      options.fileName,
+      getMaxMediaSize(options.type)
+    );
+    const mimeType =
+      options.mimeType || getMimeTypeFromExtension(fileName || '');
+
+    if (!mimeType) {
+      throw new MediaValidationError(
+        `Cannot detect the MIME type of ${fileName || 'the media'}, pass the mimeType option`,
+        { size: data.length, fileName }
+      );
+    }
+
+    const type = options.type || inferMediaType(mimeType);
+    if (!type) {
+      throw new MediaValidationError(
+        `${mimeType} is not a supported media type`,
+        { mimeType, size: data.length }
+      );
+    }
+    validateMedia(type, mimeType, data);
+
+    return { data, fileName, mimeType, type };
+  }
+
+  /**
+   * Upload media content, reusing cached media ids
+   */
+  private async uploadContent(
+    data: Buffer,
+    mimeType: string,
+    fileName?: string
+  ): Promise<string> {
+    const cacheKey = MediaUploadCache.key(data, mimeType);
+    const cachedId = this.mediaCache?.get(cacheKey);
+    if (cachedId) {
+      return cachedId;
+    }
+
+    const response = await uploadMedia(
+      this.mediaUrl,
       this.token,
-      formattedPhone,
-      documentPath,
-      'document',
-      caption
+      data,
+      mimeType,
+      fileName
+    );
+    const id: string = response.data.id;
+
+    this.mediaCache?.set(cacheKey, id);
+    return id;
+  }
+
+  /**
+   * Send contacts message
+   * @param contacts - Contact cards or contact objects (at least one)
+   * @param options - Message id to reply to
+   *
+   * @example
+   * ```typescript
+   * const cards = await ContactCard.fromFile('./agents.vcf');
+   * await client.sendContacts('1234567890', cards);
+   * ```
+   */
+  async sendContacts(
+    phoneNumber: string,
+    contacts: ContactCard | SharedContact | Array<ContactCard | SharedContact>,
+    options: { msgId?: string } = {}
+  ): Promise<AxiosResponse> {
+    const list = (Array.isArray(contacts) ? contacts : [contacts]).map(
+      (contact) =>
+        (contact instanceof ContactCard
+          ? contact
+          : ContactCard.from(contact)
+        ).toJSON()
+    );
+
+    if (list.length === 0) {
+      throw new Error('At least one contact is required');
+    }
+
+    const formattedPhone = formatPhoneNumber(phoneNumber);
+    return this.logSent(
+      sendContactsMessage(
+        this.msgUrl,
+        this.token,
+        formattedPhone,
+        list,
+        options.msgId
+      )
     );
   }
 
@@ -276,17 +642,71 @@ export class WhatsApp {
     address?: string
   ): Promise<AxiosResponse> {
     const formattedPhone = formatPhoneNumber(phoneNumber);
-    return sendLocationMessage(
-      this.msgUrl,
-      this.token,
-      formattedPhone,
-      latitude,
-      longitude,
-      name,
-      address
+    return this.logSent(
+      sendLocationMessage(
+        this.msgUrl,
+        this.token,
+        formattedPhone,
+        latitude,
+        longitude,
+        name,
+        address
+      )
+    );
+  }
+
+  /**
+   * React to a message with an emoji
+   * @param messageId - Id of the message to react to
+   * @param emoji - Emoji to react with; an empty string removes the reaction
+   */
+  async sendReaction(
+    phoneNumber: string,
+    messageId: string,
+    emoji: string
+  ): Promise<AxiosResponse> {
+    const formattedPhone = formatPhoneNumber(phoneNumber);
+    return this.logSent(
+      sendReaction(this.msgUrl, this.token, formattedPhone, messageId, emoji)
     );
   }
 
+  /**
+   * Get a sent message from the message log
+   * @param id - Message id returned by the API (wamid)
+   * @returns The logged message, or undefined without a message log
+   */
+  async getSentMessage(id: string): Promise<SentMessage | undefined> {
+    return this.messageStore?.get(id);
+  }
+
+  /**
+   * Record a sent message in the message log
+   */
+  private async logSent(
+    request: Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    const response = await request;
+    const id = response.data?.messages?.[0]?.id;
+
+    if (this.messageStore && id) {
+      try {
+        const data = response.config?.data;
+        const payload = typeof data === 'string' ? JSON.parse(data) : data;
+        await this.messageStore.set({
+          id,
+          to: payload?.to || '',
+          payload: payload || {},
+          timestamp: Date.now(),
+        });
+      } catch {
+        // Silently fail - the message was sent, logging is not critical
+      }
+    }
+
+    return response;
+  }
+
   /**
    * Get media URL from media ID
    */
@@ -308,6 +728,13 @@ export class WhatsApp {
     return downloadMediaData(this.baseUrl, mediaId, this.token);
   }
 
+  /**
+   * Register a handler instance
+   */
+  registerHandler(handler: AnyHandler): void {
+    this.dispatcher.registerHandler(handler);
+  }
+
   /**
    * Register text message handler
    */
@@ -327,6 +754,27 @@ export class WhatsApp {
     this.dispatcher.registerHandler(handler);
   }
 
+  /**
+   * Register WhatsApp Flow response handler (nfm_reply)
+   * Filters are checked against the flow token.
+   */
+  onFlowResponse(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new FlowResponseHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register template quick-reply button handler
+   * Filters are checked against the button payload.
+   */
+  onTemplateButton(
+    action: HandlerFunction,
+    options: HandlerOptions = {}
+  ): void {
+    const handler = new TemplateButtonHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
   /**
    * Register image message handler
    */
@@ -384,6 +832,153 @@ export class WhatsApp {
     this.dispatcher.registerHandler(handler);
   }
 
+  /**
+   * Register contacts message handler
+   */
+  onContactsMessage(
+    action: HandlerFunction,
+    options: HandlerOptions = {}
+  ): void {
+    const handler = new ContactsHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register order handler (carts sent from catalog and product messages)
+   */
+  onOrder(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new OrderHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register reaction handler
+   * Filters are checked against the emoji, which is empty for removals.
+   */
+  onReaction(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new ReactionHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register system message handler (customer changed number or identity)
+   */
+  onSystemMessage(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new SystemHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register handler for message types the API does not support
+   */
+  onUnsupported(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new UnsupportedHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register handler for messages of unknown type
+   */
+  onUnknown(action: HandlerFunction, options: HandlerOptions = {}): void {
+    const handler = new UnknownHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register message status handler (sent, delivered, read, failed)
+   *
+   * @example
+   * ```typescript
+   * client.onStatus(async (status) => {
+   *   console.error(`Delivery to ${status.recipient_id} failed`, status.errors);
+   * }, { status: 'failed' });
+   * ```
+   */
+  onStatus(
+    action: StatusHandlerFunction,
+    options: StatusHandlerOptions = {}
+  ): void {
+    const handler = new StatusHandler(action, options);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register handler for a non-message webhook field
+   *
+   * @example
+   * ```typescript
+   * client.onWebhookField('account_alerts', async (alert, wabaId) => {
+   *   console.warn(`[${wabaId}] ${alert.alert_type}: ${alert.alert_description}`);
+   * });
+   * ```
+   */
+  onWebhookField<F extends keyof WebhookFieldValues>(
+    field: F,
+    action: WebhookFieldHandlerFunction<WebhookFieldValues[F]>
+  ): void;
+  onWebhookField(field: string, action: WebhookFieldHandlerFunction): void;
+  onWebhookField(field: string, action: WebhookFieldHandlerFunction): void {
+    const handler = new WebhookFieldHandler(field, action);
+    this.dispatcher.registerHandler(handler);
+  }
+
+  /**
+   * Register template status handler (approved, rejected, paused, ...)
+   */
+  onTemplateStatusUpdate(
+    action: WebhookFieldHandlerFunction<TemplateStatusUpdate>
+  ): void {
+    this.onWebhookField('message_template_status_update', action);
+  }
+
+  /**
+   * Register template quality score handler
+   */
+  onTemplateQualityUpdate(
+    action: WebhookFieldHandlerFunction<TemplateQualityUpdate>
+  ): void {
+    this.onWebhookField('message_template_quality_update', action);
+  }
+
+  /**
+   * Register phone number quality and messaging limit handler
+   */
+  onPhoneNumberQualityUpdate(
+    action: WebhookFieldHandlerFunction<PhoneNumberQualityUpdate>
+  ): void {
+    this.onWebhookField('phone_number_quality_update', action);
+  }
+
+  /**
+   * Register account update handler (bans, restrictions, violations)
+   */
+  onAccountUpdate(action: WebhookFieldHandlerFunction<AccountUpdate>): void {
+    this.onWebhookField('account_update', action);
+  }
+
+  /**
+   * Register account alert handler
+   */
+  onAccountAlert(action: WebhookFieldHandlerFunction<AccountAlert>): void {
+    this.onWebhookField('account_alerts', action);
+  }
+
+  /**
+   * Register error handler
+   * Called when a handler (or any other step of processing an update) throws.
+   * The update and handler are passed when known.
+   *
+   * @example
+   * ```typescript
+   * client.onError(async (error, update) => {
+   *   console.error('Failed to handle update', error);
+   * });
+   * ```
+   */
+  onError(action: ErrorHandlerFunction): void {
+    this.dispatcher.registerErrorHandler(action);
+  }
+
   /**
    * Set next step handler for user
    */
@@ -411,7 +1006,7 @@ export class WhatsApp {
   /**
    * Get queue status
    */
-  getQueueStatus(): { size: number; isProcessing: boolean } {
+  getQueueStatus(): QueueStatus {
     return this.dispatcher.getQueueStatus();
   }
 }
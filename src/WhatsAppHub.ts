@@ -0,0 +1,264 @@
+/**
+ * WhatsApp Hub
+ * Serves several business phone numbers from one process
+ */
+
+import type {
+  WebhookPayload,
+  WebhookReceiver,
+  WebhookFieldHandlerFunction,
+  WebhookFieldValues,
+  ErrorHandlerFunction,
+} from './types';
+import type { WhatsAppConfig } from './WhatsApp';
+import { WhatsApp } from './WhatsApp';
+import { Dispatcher } from './Dispatcher';
+import type { AnyHandler } from './Handlers';
+import { WebhookFieldHandler } from './Handlers';
+import type { WebhookServerOptions } from './WebhookServer';
+import { WebhookServer } from './WebhookServer';
+import { InvalidSignatureError } from './errors';
+import { verifySignature } from './Webhook';
+import { keysExist } from './utils/helpers';
+
+/**
+ * WhatsApp Hub Configuration
+ */
+export interface WhatsAppHubConfig {
+  numbers?: WhatsAppConfig[];
+  appSecret?: string;
+}
+
+/**
+ * Main Hub Class
+ * Routes each webhook change to the client registered for its
+ * `metadata.phone_number_id`. Handlers can be shared by every number or
+ * registered on a single number's client. Account level webhook fields
+ * (template status, alerts, ...) are handled once by the hub itself.
+ *
+ * @example
+ * ```typescript
+ * const hub = new WhatsAppHub({
+ *   appSecret: process.env.APP_SECRET,
+ *   numbers: [
+ *     { numberId: '1111', token: 'token_a' },
+ *     { numberId: '2222', token: 'token_b' },
+ *   ],
+ * });
+ *
+ * // Shared by every number
+ * hub.use((client) => {
+ *   client.onMessage(async (update) => {
+ *     await update.replyMessage(`You wrote to ${update.displayPhoneNumber}`);
+ *   });
+ * });
+ *
+ * // Scoped to one number
+ * hub.getClient('2222')?.onImageMessage(async (update) => { ... });
+ *
+ * await hub.listen({ port: 3000, verifyToken: 'secret' });
+ * ```
+ */
+export class WhatsAppHub implements WebhookReceiver {
+  private clients: Map<string, WhatsApp> = new Map();
+  private setups: Array<(client: WhatsApp) => void> = [];
+  private appSecret?: string;
+  // Handles account level webhook fields, which carry no phone number
+  private dispatcher: Dispatcher;
+
+  /**
+   * Creates a new hub
+   * @param config - Hub configuration
+   */
+  constructor(config: WhatsAppHubConfig = {}) {
+    this.appSecret = config.appSecret;
+    this.dispatcher = new Dispatcher(this, false);
+
+    for (const numberConfig of config.numbers || []) {
+      this.addNumber(numberConfig);
+    }
+  }
+
+  /**
+   * Register a phone number
+   * Shared handlers registered so far are applied to the new client.
+   * @returns The client serving this number
+   */
+  addNumber(config: WhatsAppConfig): WhatsApp {
+    const id = String(config.numberId);
+    if (this.clients.has(id)) {
+      throw new Error(`Phone number ${id} is already registered`);
+    }
+
+    const client = new WhatsApp({
+      ...config,
+      appSecret: config.appSecret ?? this.appSecret,
+    });
+    this.clients.set(id, client);
+
+    for (const setup of this.setups) {
+      setup(client);
+    }
+
+    return client;
+  }
+
+  /**
+   * Remove a phone number
+   */
+  removeNumber(numberId: string): boolean {
+    return this.clients.delete(String(numberId));
+  }
+
+  /**
+   * Get the client serving a phone number
+   */
+  getClient(numberId: string): WhatsApp | undefined {
+    return this.clients.get(String(numberId));
+  }
+
+  /**
+   * Get all clients
+   */
+  getClients(): WhatsApp[] {
+    return Array.from(this.clients.values());
+  }
+
+  /**
+   * Register handlers on every number, including numbers added later
+   * @param setup - Called once with each client
+   */
+  use(setup: (client: WhatsApp) => void): void {
+    this.setups.push(setup);
+    for (const client of this.clients.values()) {
+      setup(client);
+    }
+  }
+
+  /**
+   * Register a handler instance on every number
+   */
+  registerHandler(handler: AnyHandler): void {
+    if (handler instanceof WebhookFieldHandler) {
+      this.dispatcher.registerHandler(handler);
+      return;
+    }
+    this.use((client) => client.registerHandler(handler));
+  }
+
+  /**
+   * Register handler for an account level webhook field
+   */
+  onWebhookField<F extends keyof WebhookFieldValues>(
+    field: F,
+    action: WebhookFieldHandlerFunction<WebhookFieldValues[F]>
+  ): void;
+  onWebhookField(field: string, action: WebhookFieldHandlerFunction): void;
+  onWebhookField(field: string, action: WebhookFieldHandlerFunction): void {
+    this.dispatcher.registerHandler(new WebhookFieldHandler(field, action));
+  }
+
+  /**
+   * Register error handler for account level webhook field handlers
+   */
+  onError(action: ErrorHandlerFunction): void {
+    this.dispatcher.registerErrorHandler(action);
+  }
+
+  /**
+   * Process incoming webhook update
+   * Message changes are grouped per receiving number and forwarded to that
+   * client; changes for unregistered numbers are ignored. Other fields are
+   * handled by the hub's own webhook field handlers.
+   */
+  async processUpdate(update: WebhookPayload): Promise<void> {
+    if (!keysExist(update, 'entry')) {
+      return;
+    }
+
+    const payloads: Map<WhatsApp | Dispatcher, WebhookPayload> = new Map();
+
+    for (const entry of update.entry) {
+      for (const change of entry.changes || []) {
+        const target = this.getTarget(change);
+        if (!target) continue;
+
+        let payload = payloads.get(target);
+        if (!payload) {
+          payload = { object: update.object, entry: [] };
+          payloads.set(target, payload);
+        }
+
+        let targetEntry = payload.entry.find((e) => e.id === entry.id);
+        if (!targetEntry) {
+          targetEntry = { id: entry.id, changes: [] };
+          payload.entry.push(targetEntry);
+        }
+        targetEntry.changes.push(change);
+      }
+    }
+
+    await Promise.all(
+      Array.from(payloads, ([target, payload]) => target.processUpdate(payload))
+    );
+  }
+
+  /**
+   * Find who processes a webhook change
+   */
+  private getTarget(
+    change: WebhookPayload['entry'][number]['changes'][number]
+  ): WhatsApp | Dispatcher | undefined {
+    if (change.field && change.field !== 'messages') {
+      return this.dispatcher;
+    }
+
+    const numberId = change.value?.metadata?.phone_number_id;
+    return numberId !== undefined ? this.getClient(numberId) : undefined;
+  }
+
+  /**
+   * Verify and process a raw webhook request body
+   * @throws InvalidSignatureError if an app secret is configured and the signature does not match
+   */
+  async processRawUpdate(
+    rawBody: Buffer | string,
+    signature?: string
+  ): Promise<void> {
+    if (!this.verifySignature(rawBody, signature)) {
+      throw new InvalidSignatureError();
+    }
+
+    return this.processUpdate(JSON.parse(rawBody.toString()));
+  }
+
+  /**
+   * Check a webhook signature against the hub's app secret
+   * Always returns true when no app secret is configured.
+   */
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean {
+    if (!this.appSecret) {
+      return true;
+    }
+    return verifySignature(rawBody, signature, this.appSecret);
+  }
+
+  /**
+   * Wait until every client has processed its queued updates
+   */
+  async drain(): Promise<void> {
+    await Promise.all([
+      this.dispatcher.drain(),
+      ...this.getClients().map((client) => client.drain()),
+    ]);
+  }
+
+  /**
+   * Start a webhook server that forwards payloads to this hub
+   */
+  async listen(options: WebhookServerOptions = {}): Promise<WebhookServer> {
+    const server = new WebhookServer(this, options);
+    await server.start();
+    return server;
+  }
+}
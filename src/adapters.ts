@@ -0,0 +1,366 @@
+/**
+ * Framework Adapters
+ * Mount webhook handling in Express, Fastify, Koa and Fetch-style runtimes.
+ * Every adapter answers the verification handshake, checks the payload
+ * signature and acknowledges with 200 the same way as the built-in server.
+ * Passing a FlowEndpoint instead of a client serves WhatsApp Flows data
+ * exchange requests.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type {
+  WebhookOptions,
+  WebhookReceiver,
+  WebhookRequest,
+  WebhookResponse,
+} from './types';
+import {
+  DEFAULT_MAX_BODY_SIZE,
+  handleWebhookRequest,
+  readBody,
+} from './Webhook';
+import { FlowEndpoint } from './FlowEndpoint';
+import { PayloadTooLargeError } from './errors';
+
+/**
+ * Adapter options
+ */
+export interface AdapterOptions extends WebhookOptions {
+  path?: string;
+}
+
+/**
+ * Webhook client, hub or flow endpoint served by an adapter
+ */
+export type AdapterTarget = WebhookReceiver | FlowEndpoint;
+
+/**
+ * Minimal Express request shape (also satisfied by Node's IncomingMessage)
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  query?: Record<string, unknown>;
+  body?: unknown;
+  rawBody?: Buffer | string;
+}
+
+/**
+ * Minimal Koa context shape
+ */
+export interface KoaLikeContext {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  headers: Record<string, string | string[] | undefined>;
+  req: IncomingMessage;
+  request: { body?: unknown; rawBody?: Buffer | string };
+  status: number;
+  body: unknown;
+  type: string;
+}
+
+/**
+ * Minimal Fastify instance shape
+ */
+export interface FastifyLikeInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (
+      request: unknown,
+      body: Buffer,
+      done: (error: Error | null, body?: Buffer) => void
+    ) => void
+  ): void;
+  get(path: string, handler: FastifyLikeHandler): void;
+  post(
+    path: string,
+    options: { bodyLimit: number },
+    handler: FastifyLikeHandler
+  ): void;
+}
+
+type FastifyLikeHandler = (
+  request: {
+    method: string;
+    query: unknown;
+    headers: Record<string, string | string[] | undefined>;
+    body?: unknown;
+  },
+  reply: {
+    code(status: number): {
+      type(contentType: string): { send(body: string): unknown };
+    };
+  }
+) => Promise<unknown>;
+
+/**
+ * Pick the raw body from a request whose body may already have been read
+ * Body parsers that keep the raw bytes (e.g. express.raw()) are required when
+ * an app secret is configured, since re-serialized JSON does not match the
+ * signature.
+ */
+async function resolveRawBody(
+  body: unknown,
+  rawBody: Buffer | string | undefined,
+  stream: IncomingMessage,
+  maxSize: number = DEFAULT_MAX_BODY_SIZE
+): Promise<Buffer | string> {
+  if (Buffer.isBuffer(body) || typeof body === 'string') {
+    return body;
+  }
+  if (rawBody !== undefined) {
+    return rawBody;
+  }
+  if (body !== undefined && body !== null) {
+    return JSON.stringify(body);
+  }
+  return readBody(stream, maxSize);
+}
+
+/**
+ * Read the body of a Fetch API request
+ * @throws PayloadTooLargeError if Content-Length or the bytes read exceed
+ * `maxSize`
+ */
+async function readFetchBody(
+  request: Request,
+  maxSize: number = DEFAULT_MAX_BODY_SIZE
+): Promise<Buffer> {
+  if (Number(request.headers.get('content-length')) > maxSize) {
+    throw new PayloadTooLargeError(maxSize);
+  }
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new PayloadTooLargeError(maxSize);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Pass a request to the webhook handling or the flow endpoint
+ */
+function handleRequest(
+  target: AdapterTarget,
+  request: WebhookRequest,
+  options: AdapterOptions
+): Promise<WebhookResponse> {
+  if (target instanceof FlowEndpoint) {
+    return target.handleRequest(request);
+  }
+  return handleWebhookRequest(target, request, options);
+}
+
+/**
+ * Parse the query string of a request URL
+ */
+function parseQuery(url: string | undefined): URLSearchParams {
+  return new URL(url || '/', 'http://localhost').searchParams;
+}
+
+/**
+ * Express middleware
+ * Errors are passed to `next` when given; otherwise the request is answered
+ * with 500 (413 for bodies over `maxBodySize`).
+ *
+ * @example
+ * ```typescript
+ * app.use('/webhook', express.raw({ type: 'application/json' }));
+ * app.all('/webhook', expressMiddleware(client, { verifyToken: 'secret' }));
+ *
+ * app.use('/flow', express.raw({ type: 'application/json' }));
+ * app.post('/flow', expressMiddleware(flowEndpoint));
+ * ```
+ */
+export function expressMiddleware(
+  client: AdapterTarget,
+  options: AdapterOptions = {}
+): (
+  req: ExpressLikeRequest,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      const method = req.method || 'GET';
+      const request: WebhookRequest = {
+        method,
+        query: req.query || parseQuery(req.url),
+        headers: req.headers,
+      };
+
+      if (method.toUpperCase() === 'POST') {
+        request.rawBody = await resolveRawBody(
+          req.body,
+          req.rawBody,
+          req,
+          options.maxBodySize
+        );
+      }
+
+      const response = await handleRequest(client, request, options);
+
+      res.statusCode = response.status;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(response.body);
+    } catch (error) {
+      if (next) {
+        next(error);
+        return;
+      }
+      if (!res.headersSent) {
+        res.statusCode = error instanceof PayloadTooLargeError ? 413 : 500;
+      }
+      res.end();
+    }
+  };
+}
+
+/**
+ * Koa middleware
+ * Requests for other paths are passed on when `path` is set.
+ *
+ * @example
+ * ```typescript
+ * app.use(koaMiddleware(client, { path: '/webhook', verifyToken: 'secret' }));
+ * ```
+ */
+export function koaMiddleware(
+  client: AdapterTarget,
+  options: AdapterOptions = {}
+): (ctx: KoaLikeContext, next: () => Promise<unknown>) => Promise<void> {
+  return async (ctx, next) => {
+    if (options.path && ctx.path !== options.path) {
+      await next();
+      return;
+    }
+
+    const request: WebhookRequest = {
+      method: ctx.method,
+      query: ctx.query,
+      headers: ctx.headers,
+    };
+
+    if (ctx.method.toUpperCase() === 'POST') {
+      request.rawBody = await resolveRawBody(
+        ctx.request.body,
+        ctx.request.rawBody,
+        ctx.req,
+        options.maxBodySize
+      );
+    }
+
+    const response = await handleRequest(client, request, options);
+
+    ctx.status = response.status;
+    ctx.type = 'text/plain';
+    ctx.body = response.body;
+  };
+}
+
+/**
+ * Fastify plugin
+ * Registers GET and POST routes on `path` (default '/webhook') and keeps JSON
+ * bodies raw inside the plugin scope so signatures can be verified.
+ *
+ * @example
+ * ```typescript
+ * fastify.register(fastifyPlugin(client, { verifyToken: 'secret' }));
+ * ```
+ */
+export function fastifyPlugin(
+  client: AdapterTarget,
+  options: AdapterOptions = {}
+): (fastify: FastifyLikeInstance) => Promise<void> {
+  const path = options.path || '/webhook';
+
+  return async (fastify) => {
+    fastify.addContentTypeParser(
+      'application/json',
+      { parseAs: 'buffer' },
+      (_request, body, done) => done(null, body)
+    );
+
+    const handler: FastifyLikeHandler = async (request, reply) => {
+      const response = await handleRequest(
+        client,
+        {
+          method: request.method,
+          query: (request.query || {}) as Record<string, unknown>,
+          headers: request.headers,
+          rawBody: request.body as Buffer | string | undefined,
+        },
+        options
+      );
+
+      return reply.code(response.status).type('text/plain').send(response.body);
+    };
+
+    fastify.get(path, handler);
+    fastify.post(
+      path,
+      { bodyLimit: options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE },
+      handler
+    );
+  };
+}
+
+/**
+ * Fetch-style handler for serverless and edge runtimes
+ * Set `awaitProcessing` where the runtime stops once the response is sent.
+ *
+ * @example
+ * ```typescript
+ * export default { fetch: fetchHandler(client, { verifyToken: 'secret', awaitProcessing: true }) };
+ * ```
+ */
+export function fetchHandler(
+  client: AdapterTarget,
+  options: AdapterOptions = {}
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+
+    if (options.path && url.pathname !== options.path) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    const webhookRequest: WebhookRequest = {
+      method: request.method,
+      query: url.searchParams,
+      headers: Object.fromEntries(request.headers.entries()),
+    };
+
+    if (request.method.toUpperCase() === 'POST') {
+      try {
+        webhookRequest.rawBody = await readFetchBody(
+          request,
+          options.maxBodySize
+        );
+      } catch (error) {
+        if (!(error instanceof PayloadTooLargeError)) throw error;
+        return new Response('Payload Too Large', { status: 413 });
+      }
+    }
+
+    const response = await handleRequest(client, webhookRequest, options);
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  };
+}
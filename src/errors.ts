@@ -0,0 +1,103 @@
+/**
+ * Error Classes
+ * Typed errors thrown by the client
+ */
+
+import type { MediaType } from './types';
+
+/**
+ * Thrown when a webhook payload's X-Hub-Signature-256 header does not match
+ * the HMAC-SHA256 of the raw body computed with the app secret
+ */
+export class InvalidSignatureError extends Error {
+  constructor(message: string = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+ * Thrown when a request body is larger than the configured maximum; carries
+ * the 413 status so frameworks answer with it
+ */
+export class PayloadTooLargeError extends Error {
+  public status: number = 413;
+  public maxSize: number;
+
+  constructor(maxSize: number) {
+    super(`Request body exceeds ${maxSize} bytes`);
+    this.name = 'PayloadTooLargeError';
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * Thrown when a WhatsApp Flows request cannot be decrypted with the
+ * configured private key. Answered with HTTP 421 so the client refreshes the
+ * public key and retries.
+ */
+export class FlowDecryptionError extends Error {
+  constructor(message: string = 'Failed to decrypt flow request') {
+    super(message);
+    this.name = 'FlowDecryptionError';
+  }
+}
+
+/**
+ * Throw from a flow screen handler to answer with a specific HTTP status,
+ * e.g. 427 when the flow token is no longer valid
+ */
+export class FlowEndpointError extends Error {
+  public status: number;
+
+  constructor(status: number, message: string = 'Flow endpoint error') {
+    super(message);
+    this.name = 'FlowEndpointError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown before submission when a message template definition breaks
+ * WhatsApp's structural rules; lists every problem found
+ */
+export class TemplateValidationError extends Error {
+  public errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid message template: ${errors.join('; ')}`);
+    this.name = 'TemplateValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown before any network call when media does not meet WhatsApp's limits
+ * for its type (allowed MIME types and maximum size)
+ */
+export class MediaValidationError extends Error {
+  public mediaType?: MediaType;
+  public mimeType?: string;
+  public size?: number;
+  public maxSize?: number;
+  public fileName?: string;
+
+  constructor(
+    message: string,
+    details: {
+      mediaType?: MediaType;
+      mimeType?: string;
+      size?: number;
+      maxSize?: number;
+      fileName?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'MediaValidationError';
+    this.mediaType = details.mediaType;
+    this.mimeType = details.mimeType;
+    this.size = details.size;
+    this.maxSize = details.maxSize;
+    this.fileName = details.fileName;
+  }
+}
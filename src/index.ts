@@ -8,6 +8,8 @@
 // Main Client
 export { WhatsApp } from './WhatsApp';
 export type { WhatsAppConfig } from './WhatsApp';
+export { WhatsAppHub } from './WhatsAppHub';
+export type { WhatsAppHubConfig } from './WhatsAppHub';
 
 // Core Classes
 export { Update } from './Update';
@@ -17,21 +19,85 @@ export {
   getAllContextUsers,
 } from './UserContext';
 export { Dispatcher } from './Dispatcher';
+export type { DispatcherOptions } from './Dispatcher';
+export { MemoryDedupStore } from './DedupStore';
+export type { DedupStore, MemoryDedupStoreOptions } from './DedupStore';
+export { ContactCard } from './ContactCard';
+export { TemplateBuilder } from './TemplateBuilder';
+export { TemplateManager, validateTemplate } from './TemplateManager';
+export type { TemplateManagerOptions } from './TemplateManager';
+export { MemoryMessageStore } from './MessageStore';
+export { MediaUploadCache } from './MediaUpload';
+export type { MediaUploadCacheOptions } from './MediaUpload';
+export {
+  MEDIA_LIMITS,
+  inferMediaType,
+  isAnimatedWebp,
+  validateMedia,
+} from './MediaValidation';
+export type { MessageStore, MemoryMessageStoreOptions } from './MessageStore';
+
+// Webhook
+export { WebhookServer } from './WebhookServer';
+export type { WebhookServerOptions } from './WebhookServer';
+export {
+  verifyWebhook,
+  verifySignature,
+  handleWebhookRequest,
+} from './Webhook';
+export {
+  expressMiddleware,
+  koaMiddleware,
+  fastifyPlugin,
+  fetchHandler,
+} from './adapters';
+export type {
+  AdapterOptions,
+  AdapterTarget,
+  ExpressLikeRequest,
+  KoaLikeContext,
+  FastifyLikeInstance,
+} from './adapters';
+export {
+  FlowEndpoint,
+  decryptFlowRequest,
+  encryptFlowResponse,
+} from './FlowEndpoint';
+export type { FlowEndpointOptions, DecryptedFlowRequest } from './FlowEndpoint';
+
+// Errors
+export {
+  InvalidSignatureError,
+  FlowDecryptionError,
+  FlowEndpointError,
+  PayloadTooLargeError,
+  MediaValidationError,
+  TemplateValidationError,
+} from './errors';
 
 // Handlers
 export {
   UpdateHandler,
   MessageHandler,
   InteractiveQueryHandler,
+  TemplateButtonHandler,
+  FlowResponseHandler,
   ImageHandler,
   AudioHandler,
   VideoHandler,
   DocumentHandler,
   StickerHandler,
   LocationHandler,
+  ContactsHandler,
+  OrderHandler,
+  ReactionHandler,
+  SystemHandler,
   UnknownHandler,
   UnsupportedHandler,
+  StatusHandler,
+  WebhookFieldHandler,
 } from './Handlers';
+export type { AnyHandler } from './Handlers';
 
 // Markup Components
 export {
@@ -42,6 +108,11 @@ export {
   ListSection,
   InlineList,
   InlineLocationRequest,
+  InlineFlow,
+  InlineProduct,
+  ProductSection,
+  InlineProductList,
+  InlineCatalog,
 } from './Markup';
 
 // Types
@@ -49,6 +120,7 @@ export * from './types';
 
 // Utilities
 export * from './utils/helpers';
+export * from './utils/vcard';
 
 // Default export
 export { WhatsApp as default } from './WhatsApp';
@@ -2,7 +2,11 @@
  * Core type definitions for WhatsApp Bot Client
  */
 
+import type { Readable } from 'stream';
 import type { AxiosResponse } from 'axios';
+import type { StatusHandler, WebhookFieldHandler } from '../Handlers';
+import type { ContactCard } from '../ContactCard';
+import type { TemplateBuilder } from '../TemplateBuilder';
 
 /**
  * WhatsApp webhook value object received from WhatsApp servers
@@ -13,14 +17,125 @@ export interface WebhookValue {
     display_phone_number: string;
     phone_number_id: string;
   };
-  contacts?: Array<{
-    profile: {
-      name: string;
-    };
-    wa_id: string;
-  }>;
+  contacts?: WebhookContact[];
   messages?: WhatsAppMessage[];
-  statuses?: any[];
+  statuses?: MessageStatus[];
+}
+
+/**
+ * Sender profile included alongside incoming messages
+ */
+export interface WebhookContact {
+  profile: {
+    name: string;
+  };
+  wa_id: string;
+}
+
+/**
+ * Webhook fields an app can subscribe to
+ */
+export type WebhookField =
+  | 'messages'
+  | 'message_template_status_update'
+  | 'message_template_quality_update'
+  | 'phone_number_quality_update'
+  | 'phone_number_name_update'
+  | 'account_update'
+  | 'account_alerts'
+  | 'account_review_update'
+  | 'business_capability_update'
+  | 'template_category_update';
+
+/**
+ * message_template_status_update value
+ */
+export interface TemplateStatusUpdate {
+  event:
+    | 'APPROVED'
+    | 'REJECTED'
+    | 'PENDING'
+    | 'DISABLED'
+    | 'PAUSED'
+    | 'FLAGGED'
+    | 'IN_APPEAL'
+    | 'PENDING_DELETION'
+    | 'REINSTATED'
+    | 'ARCHIVED'
+    | 'LOCKED'
+    | 'UNLOCKED';
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+  reason: string | null;
+  other_info?: {
+    title: string;
+    description: string;
+  };
+}
+
+/**
+ * message_template_quality_update value
+ */
+export interface TemplateQualityUpdate {
+  previous_quality_score: string;
+  new_quality_score: string;
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+}
+
+/**
+ * phone_number_quality_update value
+ */
+export interface PhoneNumberQualityUpdate {
+  display_phone_number: string;
+  event: 'FLAGGED' | 'UNFLAGGED' | 'UPGRADE' | 'DOWNGRADE' | 'ONBOARDING';
+  current_limit: string;
+  old_limit?: string;
+  max_daily_conversation_per_phone?: number;
+}
+
+/**
+ * account_update value
+ */
+export interface AccountUpdate {
+  event: string;
+  phone_number?: string;
+  ban_info?: {
+    waba_ban_state: string;
+    waba_ban_date: string;
+  };
+  restriction_info?: Array<{
+    restriction_type: string;
+    expiration: string;
+  }>;
+  violation_info?: {
+    violation_type: string;
+  };
+}
+
+/**
+ * account_alerts value
+ */
+export interface AccountAlert {
+  entity_type: string;
+  entity_id: string;
+  alert_severity: string;
+  alert_status: string;
+  alert_type: string;
+  alert_description: string;
+}
+
+/**
+ * Value types of the typed webhook fields
+ */
+export interface WebhookFieldValues {
+  message_template_status_update: TemplateStatusUpdate;
+  message_template_quality_update: TemplateQualityUpdate;
+  phone_number_quality_update: PhoneNumberQualityUpdate;
+  account_update: AccountUpdate;
+  account_alerts: AccountAlert;
 }
 
 /**
@@ -32,17 +147,99 @@ export interface WebhookPayload {
     id: string;
     changes: Array<{
       value: WebhookValue;
-      field: string;
+      field: WebhookField | string;
     }>;
   }>;
 }
 
+/**
+ * Framework-independent view of an incoming webhook HTTP request
+ */
+export interface WebhookRequest {
+  method: string;
+  query: URLSearchParams | Record<string, unknown>;
+  rawBody?: Buffer | string;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Response to send back for a webhook HTTP request
+ */
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * Webhook request handling options
+ */
+export interface WebhookOptions {
+  verifyToken?: string;
+  awaitProcessing?: boolean;
+  onError?: (error: unknown) => void;
+  /** Largest request body read from the stream, in bytes (default 1 MB) */
+  maxBodySize?: number;
+}
+
+/**
+ * Encrypted body of a WhatsApp Flows data exchange request
+ */
+export interface EncryptedFlowRequest {
+  encrypted_flow_data: string;
+  encrypted_aes_key: string;
+  initial_vector: string;
+}
+
+/**
+ * Actions sent to a WhatsApp Flows endpoint
+ */
+export type FlowEndpointAction = 'ping' | 'INIT' | 'data_exchange' | 'BACK';
+
+/**
+ * Decrypted WhatsApp Flows data exchange request
+ * Error notifications carry `data.error` and `data.error_message`.
+ */
+export interface FlowEndpointRequest {
+  version: string;
+  action: FlowEndpointAction;
+  screen?: string;
+  data?: Record<string, any>;
+  flow_token?: string;
+}
+
+/**
+ * Response returned to a WhatsApp Flows data exchange request
+ * Return the next `screen` with its `data`, or finish the flow with
+ * `{ screen: 'SUCCESS', data: { extension_message_response: { params } } }`.
+ */
+export interface FlowEndpointResponse {
+  screen?: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Handler function for a WhatsApp Flows screen
+ */
+export type FlowScreenHandlerFunction = (
+  request: FlowEndpointRequest
+) => FlowEndpointResponse | Promise<FlowEndpointResponse>;
+
+/**
+ * Anything that can receive webhook payloads (a client or a hub of clients)
+ */
+export interface WebhookReceiver {
+  processUpdate(update: WebhookPayload): Promise<void>;
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean;
+  drain(): Promise<void>;
+}
+
 /**
  * Message types supported by WhatsApp
  */
 export type MessageType =
   | 'text'
   | 'interactive'
+  | 'button'
   | 'image'
   | 'audio'
   | 'video'
@@ -50,9 +247,47 @@ export type MessageType =
   | 'sticker'
   | 'location'
   | 'contacts'
+  | 'reaction'
+  | 'order'
+  | 'system'
   | 'unknown'
   | 'unsupported';
 
+/**
+ * Product in an order message
+ */
+export interface OrderProductItem {
+  product_retailer_id: string;
+  quantity: number;
+  item_price: number;
+  currency: string;
+}
+
+/**
+ * Cart sent by a user from a catalog, product or product list message
+ */
+export interface Order {
+  catalog_id: string;
+  text?: string;
+  product_items: OrderProductItem[];
+}
+
+/**
+ * Click-to-WhatsApp ad or post a conversation started from
+ */
+export interface Referral {
+  source_url: string;
+  source_id: string;
+  source_type: 'ad' | 'post' | string;
+  headline?: string;
+  body?: string;
+  media_type?: 'image' | 'video';
+  image_url?: string;
+  video_url?: string;
+  thumbnail_url?: string;
+  ctwa_clid?: string;
+}
+
 /**
  * Base WhatsApp message structure
  */
@@ -65,7 +300,7 @@ export interface WhatsAppMessage {
     body: string;
   };
   interactive?: {
-    type: 'button_reply' | 'list_reply';
+    type: 'button_reply' | 'list_reply' | 'nfm_reply';
     button_reply?: {
       id: string;
       title: string;
@@ -75,6 +310,15 @@ export interface WhatsAppMessage {
       title: string;
       description?: string;
     };
+    nfm_reply?: {
+      name?: string;
+      body?: string;
+      response_json: string;
+    };
+  };
+  button?: {
+    text: string;
+    payload: string;
   };
   image?: MediaObject;
   audio?: MediaObject & { voice?: boolean };
@@ -87,10 +331,140 @@ export interface WhatsAppMessage {
     name?: string;
     address?: string;
   };
-  context?: {
-    from: string;
+  contacts?: SharedContact[];
+  order?: Order;
+  referral?: Referral;
+  reaction?: {
+    message_id: string;
+    emoji?: string; // Omitted when the reaction is removed
+  };
+  system?: SystemMessage;
+  errors?: WebhookError[];
+  context?: MessageContext;
+}
+
+/**
+ * System message sent when a customer changes their number or identity
+ */
+export interface SystemMessage {
+  body: string;
+  type: 'customer_changed_number' | 'customer_identity_changed' | string;
+  new_wa_id?: string; // New number for customer_changed_number
+  wa_id?: string;
+  identity?: string; // Identity hash for customer_identity_changed
+  customer?: string;
+}
+
+/**
+ * Context of a message that quotes or forwards another message
+ * `id` and `from` identify the quoted message; forwarded messages only carry
+ * the forwarding flags.
+ */
+export interface MessageContext {
+  id?: string;
+  from?: string;
+  forwarded?: boolean;
+  frequently_forwarded?: boolean;
+  referred_product?: {
+    catalog_id: string;
+    product_retailer_id: string;
+  };
+}
+
+/**
+ * Message sent by the client, as recorded in the message log
+ */
+export interface SentMessage {
+  id: string;
+  to: string;
+  payload: Record<string, any>;
+  timestamp: number;
+}
+
+/**
+ * Error object included in webhooks (failed statuses, unsupported messages)
+ */
+export interface WebhookError {
+  code: number;
+  title: string;
+  message?: string;
+  error_data?: {
+    details: string;
+  };
+  href?: string;
+}
+
+/**
+ * Delivery status values reported for sent messages
+ */
+export type MessageStatusType =
+  'sent' | 'delivered' | 'read' | 'failed' | 'deleted';
+
+/**
+ * Status update for a message sent by the business
+ */
+export interface MessageStatus {
+  id: string;
+  status: MessageStatusType;
+  timestamp: string;
+  recipient_id: string;
+  biz_opaque_callback_data?: string;
+  conversation?: {
     id: string;
+    expiration_timestamp?: string;
+    origin: {
+      type: string;
+    };
+  };
+  pricing?: {
+    billable: boolean;
+    pricing_model: string;
+    category: string;
+    type?: string;
+  };
+  errors?: WebhookError[];
+}
+
+/**
+ * Contact card shared in a contacts message
+ */
+export interface SharedContact {
+  name: {
+    formatted_name: string;
+    first_name?: string;
+    last_name?: string;
+    middle_name?: string;
+    prefix?: string;
+    suffix?: string;
+  };
+  phones?: Array<{
+    phone?: string;
+    wa_id?: string;
+    type?: string;
+  }>;
+  emails?: Array<{
+    email: string;
+    type?: string;
+  }>;
+  addresses?: Array<{
+    street?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+    country_code?: string;
+    type?: string;
+  }>;
+  org?: {
+    company?: string;
+    department?: string;
+    title?: string;
   };
+  urls?: Array<{
+    url: string;
+    type?: string;
+  }>;
+  birthday?: string;
 }
 
 /**
@@ -125,6 +499,25 @@ export interface UpdateData {
   locName?: string;
   locLatitude?: number;
   locLongitude?: number;
+  contacts?: SharedContact[];
+  reactionMessageId?: string;
+  reactionEmoji?: string;
+  buttonPayload?: string;
+  buttonText?: string;
+  flowResponse?: FlowResponse;
+  order?: Order;
+  orderTotal?: number;
+  system?: SystemMessage;
+  errors?: WebhookError[];
+}
+
+/**
+ * Response submitted from a WhatsApp Flow (parsed `nfm_reply.response_json`)
+ * Holds the flow token plus the fields sent by the flow's complete action.
+ */
+export interface FlowResponse {
+  flow_token?: string;
+  [key: string]: unknown;
 }
 
 /**
@@ -135,6 +528,15 @@ export type HandlerFunction = (
   context?: UserContext
 ) => void | Promise<void>;
 export type FilterFunction = (text: string) => boolean;
+export type ErrorHandlerFunction = (
+  error: unknown,
+  update?: Update | MessageStatus,
+  handler?: UpdateHandler | StatusHandler | WebhookFieldHandler
+) => void | Promise<void>;
+export type StatusHandlerFunction = (
+  status: MessageStatus,
+  bot: WhatsAppClient
+) => void | Promise<void>;
 
 /**
  * Handler options
@@ -144,6 +546,12 @@ export interface HandlerOptions {
   filter?: FilterFunction;
   context?: boolean;
   persistent?: boolean;
+  // true: only messages from ads/posts, false: only others, or a predicate
+  referral?: boolean | ((referral: Referral) => boolean);
+  // Message id: only replies quoting it, true: any reply, false: no replies
+  replyTo?: string | boolean;
+  // Send the read receipt once the handler finishes instead of on arrival
+  deferRead?: boolean;
 }
 
 /**
@@ -154,6 +562,23 @@ export interface InteractiveHandlerOptions extends HandlerOptions {
   handleList?: boolean;
 }
 
+/**
+ * Handler function for non-message webhook fields
+ * Receives the change value and the WhatsApp Business Account id.
+ */
+export type WebhookFieldHandlerFunction<T = any> = (
+  value: T,
+  wabaId: string
+) => void | Promise<void>;
+
+/**
+ * Status handler options
+ */
+export interface StatusHandlerOptions {
+  status?: MessageStatusType | MessageStatusType[];
+  filter?: (status: MessageStatus) => boolean;
+}
+
 /**
  * Next step handler configuration
  */
@@ -172,16 +597,255 @@ export interface UserContextData {
 /**
  * Reply markup types
  */
-export type ReplyMarkupType = 'button' | 'list' | 'location_request_message';
+export type ReplyMarkupType =
+  | 'button'
+  | 'list'
+  | 'location_request_message'
+  | 'flow'
+  | 'product'
+  | 'product_list'
+  | 'catalog_message';
+
+/**
+ * WhatsApp Flow message options
+ * Exactly one of `flowId` or `flowName` is required.
+ */
+export interface InlineFlowOptions {
+  flowId?: string;
+  flowName?: string;
+  token?: string;
+  action?: 'navigate' | 'data_exchange';
+  screen?: string;
+  data?: Record<string, unknown>;
+  mode?: 'draft' | 'published';
+  version?: string;
+}
 
 /**
  * Template component structure
  */
 export interface TemplateComponent {
   type: string;
+  sub_type?: string; // Button components
+  index?: string; // Button position in the template, from 0
   parameters?: any[];
 }
 
+/**
+ * Media used as a template header parameter (URL or media id)
+ */
+export type TemplateMedia = { link: string } | { id: string };
+
+/**
+ * Template header parameter
+ */
+export type TemplateHeaderParameter =
+  | { type: 'text'; text: string; parameter_name?: string }
+  | { type: 'image'; image: TemplateMedia }
+  | { type: 'video'; video: TemplateMedia }
+  | { type: 'document'; document: TemplateMedia & { filename?: string } }
+  | {
+      type: 'location';
+      location: {
+        latitude: string;
+        longitude: string;
+        name?: string;
+        address?: string;
+      };
+    };
+
+/**
+ * Template body parameter
+ */
+export type TemplateBodyParameter =
+  | { type: 'text'; text: string; parameter_name?: string }
+  | {
+      type: 'currency';
+      currency: { fallback_value: string; code: string; amount_1000: number };
+      parameter_name?: string;
+    }
+  | {
+      type: 'date_time';
+      date_time: { fallback_value: string };
+      parameter_name?: string;
+    };
+
+/**
+ * Template button parameter
+ */
+export type TemplateButtonParameter =
+  | { type: 'payload'; payload: string }
+  | { type: 'text'; text: string }
+  | { type: 'coupon_code'; coupon_code: string }
+  | {
+      type: 'action';
+      action: {
+        flow_token?: string;
+        flow_action_data?: Record<string, unknown>;
+      };
+    };
+
+/**
+ * Template button sub types that take parameters when sending
+ */
+export type TemplateButtonSubType =
+  'quick_reply' | 'url' | 'copy_code' | 'flow';
+
+/**
+ * Template object posted in template messages
+ */
+export interface TemplatePayload {
+  name: string;
+  language: { code: string };
+  components: TemplateComponent[];
+}
+
+/**
+ * Message template categories
+ */
+export type TemplateCategory = 'AUTHENTICATION' | 'MARKETING' | 'UTILITY';
+
+/**
+ * Message template review statuses
+ */
+export type TemplateStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'REJECTED'
+  | 'PAUSED'
+  | 'DISABLED'
+  | 'IN_APPEAL'
+  | 'PENDING_DELETION'
+  | 'DELETED'
+  | 'LIMIT_EXCEEDED'
+  | 'ARCHIVED'
+  | string;
+
+/**
+ * Button in a message template definition
+ */
+export type TemplateButtonDefinition =
+  | { type: 'QUICK_REPLY'; text: string }
+  | { type: 'URL'; text: string; url: string; example?: string[] }
+  | { type: 'PHONE_NUMBER'; text: string; phone_number: string }
+  | { type: 'COPY_CODE'; example: string }
+  | {
+      type: 'FLOW';
+      text: string;
+      flow_id?: string;
+      flow_name?: string;
+      flow_json?: string;
+      flow_action?: 'navigate' | 'data_exchange';
+      navigate_screen?: string;
+    }
+  | {
+      type: 'OTP';
+      otp_type: 'COPY_CODE' | 'ONE_TAP' | 'ZERO_TAP';
+      text?: string;
+      autofill_text?: string;
+      supported_apps?: Array<{ package_name: string; signature_hash: string }>;
+    };
+
+/**
+ * Component of a message template definition
+ * Variables are written {{1}}, {{2}}, ... or {{name}} for templates with
+ * named parameters, and need example values.
+ */
+export type TemplateComponentDefinition =
+  | {
+      type: 'HEADER';
+      format: 'TEXT';
+      text: string;
+      example?: {
+        header_text?: string[];
+        header_text_named_params?: Array<{
+          param_name: string;
+          example: string;
+        }>;
+      };
+    }
+  | {
+      type: 'HEADER';
+      format: 'IMAGE' | 'VIDEO' | 'DOCUMENT';
+      example?: { header_handle: string[] };
+    }
+  | { type: 'HEADER'; format: 'LOCATION' }
+  | {
+      type: 'BODY';
+      text?: string; // Omitted in authentication templates
+      add_security_recommendation?: boolean;
+      example?: {
+        body_text?: string[][];
+        body_text_named_params?: Array<{ param_name: string; example: string }>;
+      };
+    }
+  | { type: 'FOOTER'; text?: string; code_expiration_minutes?: number }
+  | { type: 'BUTTONS'; buttons: TemplateButtonDefinition[] };
+
+/**
+ * Message template as returned by the message_templates edge
+ */
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: TemplateStatus;
+  category: TemplateCategory;
+  components: TemplateComponentDefinition[];
+  parameter_format?: 'POSITIONAL' | 'NAMED';
+  rejected_reason?: string;
+  quality_score?: { score: string; date?: number };
+  [key: string]: unknown;
+}
+
+/**
+ * New message template
+ */
+export interface CreateTemplateRequest {
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  components: TemplateComponentDefinition[];
+  parameter_format?: 'POSITIONAL' | 'NAMED';
+  allow_category_change?: boolean;
+}
+
+/**
+ * Changes to an existing message template
+ */
+export interface EditTemplateRequest {
+  category?: TemplateCategory;
+  components?: TemplateComponentDefinition[];
+  parameter_format?: 'POSITIONAL' | 'NAMED';
+}
+
+/**
+ * Filters and paging for listing message templates
+ */
+export interface TemplateListOptions {
+  name?: string;
+  status?: TemplateStatus;
+  category?: TemplateCategory;
+  language?: string;
+  content?: string;
+  fields?: string[];
+  limit?: number;
+  after?: string;
+  before?: string;
+}
+
+/**
+ * Page of message templates
+ */
+export interface TemplateListPage {
+  data: MessageTemplate[];
+  paging?: {
+    cursors?: { before?: string; after?: string };
+    next?: string;
+    previous?: string;
+  };
+}
+
 /**
  * Send message options
  */
@@ -201,19 +865,32 @@ export interface SendMessageOptions {
 export interface SendMediaOptions {
   caption?: string;
   mediaProviderToken?: string;
+  mimeType?: string; // Detected from the file extension when omitted
+  fileName?: string;
+  type?: MediaType; // Inferred from the MIME type when omitted
 }
 
+/**
+ * Media message types
+ */
+export type MediaType = 'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+/**
+ * Media to send: a URL, an uploaded media id, a local file path, a Buffer or
+ * a Readable stream. Local media is uploaded automatically.
+ */
+export type MediaSource = string | Buffer | Readable;
+
 /**
  * Update class - represents incoming message update
  */
 export interface Update {
   bot: WhatsAppClient;
   value: WebhookValue;
+  phoneNumberId: string;
+  displayPhoneNumber: string;
   message: WhatsAppMessage;
-  user: {
-    profile: { name: string };
-    wa_id: string;
-  };
+  user: WebhookContact;
   userDisplayName: string;
   userPhoneNumber: string;
   messageId: string;
@@ -228,6 +905,18 @@ export interface Update {
   locName?: string;
   locLatitude?: number;
   locLongitude?: number;
+  contacts?: SharedContact[];
+  reactionMessageId?: string;
+  reactionEmoji?: string;
+  buttonPayload?: string;
+  buttonText?: string;
+  flowResponse?: FlowResponse;
+  order?: Order;
+  orderTotal?: number;
+  referral?: Referral;
+  replyTo?: MessageContext;
+  system?: SystemMessage;
+  errors?: WebhookError[];
 
   replyMessage(
     text: string,
@@ -235,9 +924,18 @@ export interface Update {
   ): Promise<AxiosResponse>;
 
   replyMedia(
-    mediaPath: string,
+    mediaPath: MediaSource,
     options?: SendMediaOptions
   ): Promise<AxiosResponse>;
+
+  replyContacts(
+    contacts: ContactCard | SharedContact | Array<ContactCard | SharedContact>
+  ): Promise<AxiosResponse>;
+
+  react(emoji: string): Promise<AxiosResponse>;
+  showTyping(): Promise<AxiosResponse>;
+  simulateTyping(ms: number): Promise<void>;
+  getQuotedMessage(): Promise<SentMessage | undefined>;
 }
 
 /**
@@ -257,9 +955,12 @@ export interface UpdateHandler {
   action: HandlerFunction;
   context: boolean;
   persistent: boolean;
+  deferRead: boolean;
   list?: boolean;
   button?: boolean;
 
+  canHandle(message: WhatsAppMessage): boolean;
+  messageCheck(message: WhatsAppMessage): boolean;
   extractData(message: WhatsAppMessage): UpdateData;
   filterCheck(text: string): boolean;
   run(update: Update, context?: UserContext): Promise<void>;
@@ -292,20 +993,45 @@ export interface WhatsAppClient {
   ): Promise<AxiosResponse>;
   sendTemplateMessage(
     phoneNumber: string,
-    templateName: string,
+    template: string | TemplateBuilder,
     components?: TemplateComponent[],
     languageCode?: string
   ): Promise<AxiosResponse>;
   sendMediaMessage(
     phoneNumber: string,
-    mediaPath: string,
+    mediaPath: MediaSource,
     options?: SendMediaOptions
   ): Promise<AxiosResponse>;
+  uploadMedia(media: MediaSource, options?: SendMediaOptions): Promise<string>;
+  sendContacts(
+    phoneNumber: string,
+    contacts: ContactCard | SharedContact | Array<ContactCard | SharedContact>,
+    options?: { msgId?: string }
+  ): Promise<AxiosResponse>;
+  sendReaction(
+    phoneNumber: string,
+    messageId: string,
+    emoji: string
+  ): Promise<AxiosResponse>;
   markAsRead(message: WhatsAppMessage): Promise<AxiosResponse>;
+  showTypingIndicator(messageId: string): Promise<AxiosResponse>;
+  getSentMessage(id: string): Promise<SentMessage | undefined>;
   getMediaUrl(mediaId: string): Promise<any>;
   downloadMedia(mediaId: string, filePath: string): Promise<string>;
 }
 
+/**
+ * Dispatcher queue status
+ */
+export interface QueueStatus {
+  size: number;
+  isProcessing: boolean;
+  inFlight: number;
+  users: Record<string, { queued: number; inFlight: number }>;
+  /** Account level webhook fields, queued apart from users */
+  fields: Record<string, { queued: number; inFlight: number }>;
+}
+
 /**
  * Dispatcher configuration
  */
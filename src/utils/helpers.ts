@@ -2,6 +2,8 @@
  * Utility functions for error handling and data validation
  */
 
+import type { Order } from '../types';
+
 /**
  * Check if nested keys exist in an object
  * @param element - The object to check
@@ -122,3 +124,34 @@ export function getExtensionFromMimeType(mimeType: string): string {
   );
   return entry ? entry[0] : '.bin';
 }
+
+/**
+ * Get MIME type from a file name or path
+ * @param fileName - File name or path
+ * @returns MIME type, or undefined for unknown extensions
+ *
+ * @example
+ * getMimeTypeFromExtension('./invoice.PDF'); // 'application/pdf'
+ */
+export function getMimeTypeFromExtension(fileName: string): string | undefined {
+  const match = /\.[^./\\]+$/.exec(fileName);
+  return match ? KNOWN_MIME_TYPES[match[0].toLowerCase()] : undefined;
+}
+
+/**
+ * Compute the total price of an order (sum of item price times quantity)
+ * Orders are priced in a single currency, `product_items[0].currency`.
+ * @param order - Order from an order message
+ * @returns Cart total
+ *
+ * @example
+ * getOrderTotal(update.order); // 25.5
+ */
+export function getOrderTotal(order: Order): number {
+  const total = order.product_items.reduce(
+    (sum, item) => sum + item.item_price * item.quantity,
+    0
+  );
+  // Drop floating point noise such as 0.30000000000000004
+  return Math.round(total * 1e6) / 1e6;
+}
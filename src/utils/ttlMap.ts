@@ -0,0 +1,84 @@
+/**
+ * Bounded map with expiring entries, shared by the in-memory stores
+ */
+
+/**
+ * TTL Map
+ * Keeps entries for a fixed time and evicts the oldest entries once the size
+ * limit is reached. Setting a key again moves it to the end with a new
+ * expiry time.
+ */
+export class TtlMap<V> {
+  private ttl: number;
+  private maxSize: number;
+  // Entries in insertion order, with their expiry time
+  private entries: Map<string, { value: V; expiresAt: number }> = new Map();
+
+  /**
+   * Creates a new map
+   * @param ttl - Time to live in milliseconds
+   * @param maxSize - Maximum number of entries
+   */
+  constructor(ttl: number, maxSize: number) {
+    this.ttl = ttl;
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Get the value of a key that has not expired
+   */
+  get(key: string): V | undefined {
+    this.prune(Date.now());
+    return this.entries.get(key)?.value;
+  }
+
+  /**
+   * Check whether a key is stored and has not expired
+   */
+  has(key: string): boolean {
+    this.prune(Date.now());
+    return this.entries.has(key);
+  }
+
+  /**
+   * Store a value, evicting the oldest entry beyond the size limit
+   */
+  set(key: string, value: V): void {
+    const now = Date.now();
+    this.prune(now);
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + this.ttl });
+
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Number of entries currently stored
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired entries (all entries share one TTL, so they expire in order)
+   */
+  private prune(now: number): void {
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt > now) break;
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * vCard utilities for shared contacts
+ */
+
+import type { SharedContact } from '../types';
+
+/**
+ * Supported vCard versions
+ */
+export type VCardVersion = '3.0' | '4.0';
+
+/**
+ * WhatsApp contact field types mapped to vCard TYPE values
+ */
+const TYPE_MAP: Record<string, string> = {
+  CELL: 'cell',
+  IPHONE: 'cell',
+  MAIN: 'voice',
+  HOME: 'home',
+  WORK: 'work',
+};
+
+/**
+ * Escape a vCard text value (RFC 6350 section 3.4)
+ * @param value - Raw text
+ * @returns Escaped text
+ */
+export function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+/**
+ * Fold a content line to at most 75 octets (RFC 6350 section 3.2)
+ * Lines are only broken between code points, so multi-byte characters and
+ * surrogate pairs stay whole.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(part);
+      part = '';
+      size = 0;
+    }
+    part += char;
+    size += charSize;
+  }
+  parts.push(part);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build the TYPE parameter for a WhatsApp field type
+ */
+function typeParam(
+  type: string | undefined,
+  version: VCardVersion,
+  extra?: string
+): string {
+  const types = [type ? TYPE_MAP[type.toUpperCase()] : undefined, extra]
+    .filter((t): t is string => Boolean(t))
+    .map((t) => (version === '3.0' ? t.toUpperCase() : t));
+
+  return types.length > 0 ? `;TYPE=${types.join(',')}` : '';
+}
+
+/**
+ * Convert a shared contact into a vCard string
+ * @param contact - Contact received in a contacts message
+ * @param version - vCard version ('3.0' or '4.0', default '3.0')
+ * @returns vCard text with CRLF line endings
+ *
+ * @example
+ * const vcf = contactToVCard(update.contacts[0]);
+ * await writeFile('contact.vcf', vcf);
+ */
+export function contactToVCard(
+  contact: SharedContact,
+  version: VCardVersion = '3.0'
+): string {
+  const e = escapeVCardValue;
+  const name = contact.name || { formatted_name: '' };
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+
+  lines.push(`FN:${e(name.formatted_name || '')}`);
+  lines.push(
+    'N:' +
+      [
+        name.last_name,
+        name.first_name,
+        name.middle_name,
+        name.prefix,
+        name.suffix,
+      ]
+        .map((part) => e(part || ''))
+        .join(';')
+  );
+
+  if (contact.org) {
+    const { company, department, title } = contact.org;
+    if (company || department) {
+      // The organization name keeps its position when only a unit is set
+      lines.push(
+        `ORG:${e(company || '')}${department ? ';' + e(department) : ''}`
+      );
+    }
+    if (title) {
+      lines.push(`TITLE:${e(title)}`);
+    }
+  }
+
+  for (const phone of contact.phones || []) {
+    const number = phone.phone || (phone.wa_id ? `+${phone.wa_id}` : '');
+    if (!number) continue;
+
+    // waid is the parameter WhatsApp uses for the contact's "Message" button
+    const params =
+      typeParam(phone.type, version) +
+      (phone.wa_id ? `;waid=${phone.wa_id}` : '');
+    if (version === '4.0') {
+      const uri = number.replace(/[^\d+]/g, '');
+      lines.push(`TEL;VALUE=uri${params}:tel:${uri}`);
+    } else {
+      lines.push(`TEL${params}:${e(number)}`);
+    }
+  }
+
+  for (const email of contact.emails || []) {
+    const extra = version === '3.0' ? 'internet' : undefined;
+    lines.push(
+      `EMAIL${typeParam(email.type, version, extra)}:${e(email.email)}`
+    );
+  }
+
+  for (const address of contact.addresses || []) {
+    const value = [
+      '',
+      '',
+      address.street,
+      address.city,
+      address.state,
+      address.zip,
+      address.country,
+    ]
+      .map((part) => e(part || ''))
+      .join(';');
+    lines.push(`ADR${typeParam(address.type, version)}:${value}`);
+  }
+
+  for (const url of contact.urls || []) {
+    lines.push(`URL${typeParam(url.type, version)}:${url.url}`);
+  }
+
+  if (contact.birthday) {
+    const birthday =
+      version === '4.0' ? contact.birthday.replace(/-/g, '') : contact.birthday;
+    lines.push(`BDAY:${birthday}`);
+  }
+
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * vCard TYPE values mapped to WhatsApp contact field types
+ */
+const REVERSE_TYPE_MAP: Record<string, string> = {
+  cell: 'CELL',
+  iphone: 'IPHONE',
+  voice: 'MAIN',
+  main: 'MAIN',
+  home: 'HOME',
+  work: 'WORK',
+};
+
+/**
+ * Parsed content line
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+/**
+ * Split a value on unescaped separators
+ */
+function splitValue(value: string, separator: ';' | ','): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Unescape a vCard text value (RFC 6350 section 3.4)
+ */
+function unescapeVCardValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, c: string) =>
+    c === 'n' || c === 'N' ? '\n' : c
+  );
+}
+
+/**
+ * Parse a content line such as `item1.TEL;TYPE=cell;waid=1555:+1 555`
+ */
+function parseLine(line: string): ContentLine | undefined {
+  const colon = line.indexOf(':');
+  if (colon < 0) {
+    return undefined;
+  }
+
+  const [nameWithGroup, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    // vCard 2.1 allows bare types (TEL;CELL:...)
+    const key = eq < 0 ? 'TYPE' : param.slice(0, eq).toUpperCase();
+    const values = (eq < 0 ? param : param.slice(eq + 1))
+      .split(',')
+      .map((v) => v.replace(/^"|"$/g, ''));
+    params[key] = [...(params[key] || []), ...values];
+  }
+
+  return {
+    name: nameWithGroup.replace(/^.*\./, '').toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+}
+
+/**
+ * Get the WhatsApp field type of a content line
+ */
+function fieldType(line: ContentLine): string | undefined {
+  for (const type of line.params.TYPE || []) {
+    const mapped = REVERSE_TYPE_MAP[type.toLowerCase()];
+    if (mapped) return mapped;
+  }
+  return undefined;
+}
+
+/**
+ * Parse vCard text into shared contacts
+ * Supports vCard 2.1, 3.0 and 4.0 (folded lines, escaped values, the
+ * WhatsApp `waid` phone parameter). Unknown properties are ignored.
+ * @param text - Content of a .vcf file, possibly holding several cards
+ * @returns One contact per card
+ *
+ * @example
+ * const contacts = parseVCard(await readFile('agents.vcf', 'utf-8'));
+ */
+export function parseVCard(text: string): SharedContact[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const contacts: SharedContact[] = [];
+  let contact: SharedContact | undefined;
+
+  for (const raw of lines) {
+    const line = parseLine(raw.trim());
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VCARD') {
+      contact = { name: { formatted_name: '' } };
+      continue;
+    }
+    if (!contact) continue;
+
+    const u = unescapeVCardValue;
+    const type = fieldType(line);
+
+    switch (line.name) {
+      case 'END': {
+        if (!contact.name.formatted_name) {
+          const { prefix, first_name, middle_name, last_name, suffix } =
+            contact.name;
+          contact.name.formatted_name = [
+            prefix,
+            first_name,
+            middle_name,
+            last_name,
+            suffix,
+          ]
+            .filter(Boolean)
+            .join(' ');
+        }
+        contacts.push(contact);
+        contact = undefined;
+        break;
+      }
+      case 'FN':
+        contact.name.formatted_name = u(line.value);
+        break;
+      case 'N': {
+        const [last, first, middle, prefix, suffix] = splitValue(
+          line.value,
+          ';'
+        ).map(u);
+        const parts = {
+          last_name: last,
+          first_name: first,
+          middle_name: middle,
+          prefix,
+          suffix,
+        };
+        for (const [key, value] of Object.entries(parts)) {
+          if (value) {
+            contact.name[key as keyof typeof parts] = value;
+          }
+        }
+        break;
+      }
+      case 'TEL': {
+        const phone = u(line.value).replace(/^tel:/i, '');
+        const waId = line.params.WAID?.[0];
+        (contact.phones = contact.phones || []).push({
+          phone,
+          ...(waId && { wa_id: waId }),
+          ...(type && { type }),
+        });
+        break;
+      }
+      case 'EMAIL':
+        (contact.emails = contact.emails || []).push({
+          email: u(line.value),
+          ...(type && { type }),
+        });
+        break;
+      case 'ADR': {
+        const [, , street, city, state, zip, country] = splitValue(
+          line.value,
+          ';'
+        ).map(u);
+        const address = { street, city, state, zip, country };
+        (contact.addresses = contact.addresses || []).push({
+          ...Object.fromEntries(
+            Object.entries(address).filter(([, value]) => value)
+          ),
+          ...(type && { type }),
+        });
+        break;
+      }
+      case 'ORG': {
+        const [company, department] = splitValue(line.value, ';').map(u);
+        contact.org = {
+          ...contact.org,
+          ...(company && { company }),
+          ...(department && { department }),
+        };
+        break;
+      }
+      case 'TITLE':
+        contact.org = { ...contact.org, title: u(line.value) };
+        break;
+      case 'URL':
+        (contact.urls = contact.urls || []).push({
+          url: line.value,
+          ...(type && { type }),
+        });
+        break;
+      case 'BDAY': {
+        const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(line.value);
+        if (match) {
+          contact.birthday = `${match[1]}-${match[2]}-${match[3]}`;
+        }
+        break;
+      }
+    }
+  }
+
+  return contacts;
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for contact cards and contacts messages
+ */
+
+import axios from 'axios';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ContactCard } from '../src/ContactCard';
+import { WhatsApp } from '../src/WhatsApp';
+
+describe('ContactCard', () => {
+  it('should build the contact object', () => {
+    const card = new ContactCard('Ana Silva', {
+      first_name: 'Ana',
+      last_name: 'Silva',
+    })
+      .addPhone('+1 555 010 2000', { type: 'WORK', waId: '15550102000' })
+      .addEmail('ana@example.com', 'WORK')
+      .addAddress({ city: 'Lisbon', country_code: 'PT', type: 'WORK' })
+      .setOrg('Example Inc.', { title: 'Support' })
+      .setBirthday(new Date(Date.UTC(1990, 0, 31)))
+      .addUrl('https://example.com');
+
+    expect(card.toJSON()).toEqual({
+      name: {
+        formatted_name: 'Ana Silva',
+        first_name: 'Ana',
+        last_name: 'Silva',
+      },
+      phones: [
+        { phone: '+1 555 010 2000', type: 'WORK', wa_id: '15550102000' },
+      ],
+      emails: [{ email: 'ana@example.com', type: 'WORK' }],
+      addresses: [{ city: 'Lisbon', country_code: 'PT', type: 'WORK' }],
+      org: { company: 'Example Inc.', title: 'Support' },
+      birthday: '1990-01-31',
+      urls: [{ url: 'https://example.com' }],
+    });
+  });
+
+  it('should use the formatted name as first name without name parts', () => {
+    expect(new ContactCard('Support').toJSON().name).toEqual({
+      formatted_name: 'Support',
+      first_name: 'Support',
+    });
+  });
+
+  it('should validate the name and birthday', () => {
+    expect(() => new ContactCard(' ')).toThrow('formatted name is required');
+    expect(() => new ContactCard('Ana').setBirthday('31/01/1990')).toThrow(
+      'YYYY-MM-DD'
+    );
+  });
+
+  it('should load cards from a .vcf file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'whatsapp-vcard-'));
+    try {
+      const file = join(dir, 'branches.vcf');
+      await writeFile(
+        file,
+        new ContactCard('Downtown branch')
+          .addPhone('+1 555 010 3000', { type: 'MAIN' })
+          .toVCard() +
+          new ContactCard('Airport branch', { first_name: 'Airport' }).toVCard(
+            '4.0'
+          )
+      );
+
+      const cards = await ContactCard.fromFile(file);
+
+      expect(cards.map((card) => card.contact.name.formatted_name)).toEqual([
+        'Downtown branch',
+        'Airport branch',
+      ]);
+      expect(cards[0].contact.phones).toEqual([
+        { phone: '+1 555 010 3000', type: 'MAIN' },
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('sendContacts', () => {
+  let post: jest.SpyInstance;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  it('should send contact cards and contact objects', async () => {
+    const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+
+    await client.sendContacts(
+      '+1 555 123 4567',
+      [
+        new ContactCard('Ana Silva').addPhone('+1 555 010 2000'),
+        { name: { formatted_name: 'Bob', first_name: 'Bob' } },
+      ],
+      { msgId: 'wamid.1' }
+    );
+
+    expect(post.mock.calls[0][1]).toEqual({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: '15551234567',
+      type: 'contacts',
+      contacts: [
+        {
+          name: { formatted_name: 'Ana Silva', first_name: 'Ana Silva' },
+          phones: [{ phone: '+1 555 010 2000' }],
+        },
+        { name: { formatted_name: 'Bob', first_name: 'Bob' } },
+      ],
+      context: { message_id: 'wamid.1' },
+    });
+  });
+
+  it('should require a contact', async () => {
+    const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+
+    await expect(client.sendContacts('15551234567', [])).rejects.toThrow(
+      'At least one contact'
+    );
+    expect(post).not.toHaveBeenCalled();
+  });
+});
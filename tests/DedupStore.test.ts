@@ -0,0 +1,40 @@
+/**
+ * Tests for Deduplication Stores
+ */
+
+import { MemoryDedupStore } from '../src/DedupStore';
+
+describe('MemoryDedupStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should report keys seen before', async () => {
+    const store = new MemoryDedupStore();
+    expect(await store.checkAndSet('message:1')).toBe(false);
+    expect(await store.checkAndSet('message:1')).toBe(true);
+    expect(await store.checkAndSet('message:2')).toBe(false);
+  });
+
+  it('should forget keys after the TTL', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryDedupStore({ ttl: 1000 });
+
+    await store.checkAndSet('message:1');
+    jest.advanceTimersByTime(1001);
+
+    expect(await store.checkAndSet('message:1')).toBe(false);
+  });
+
+  it('should evict the oldest keys beyond the size limit', async () => {
+    const store = new MemoryDedupStore({ maxSize: 2 });
+
+    await store.checkAndSet('a');
+    await store.checkAndSet('b');
+    await store.checkAndSet('c');
+
+    expect(store.size).toBe(2);
+    expect(await store.checkAndSet('a')).toBe(false);
+    expect(await store.checkAndSet('c')).toBe(true);
+  });
+});
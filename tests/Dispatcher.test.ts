@@ -0,0 +1,715 @@
+/**
+ * Tests for the Dispatcher
+ */
+
+import { WhatsApp } from '../src/WhatsApp';
+import type {
+  WebhookPayload,
+  WebhookValue,
+  WhatsAppMessage,
+} from '../src/types';
+
+function textMessage(from: string, id: string, body: string): WhatsAppMessage {
+  return { from, id, timestamp: '1700000000', type: 'text', text: { body } };
+}
+
+function messagesValue(
+  messages: WhatsAppMessage[],
+  contacts: WebhookValue['contacts'] = [],
+  phoneNumberId = '1234567890'
+): WebhookValue {
+  return {
+    messaging_product: 'whatsapp',
+    metadata: {
+      display_phone_number: '15550000000',
+      phone_number_id: phoneNumberId,
+    },
+    contacts,
+    messages,
+  };
+}
+
+function payload(...entries: WebhookValue[][]): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: entries.map((values, index) => ({
+      id: `waba_${index}`,
+      changes: values.map((value) => ({ field: 'messages', value })),
+    })),
+  };
+}
+
+function createClient(): WhatsApp {
+  return new WhatsApp({
+    numberId: '1234567890',
+    token: 'token',
+    markAsRead: false,
+  });
+}
+
+describe('Dispatcher batching', () => {
+  it('should process every entry, change and message', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    const fromFirstUser: string[] = [];
+    client.onMessage(async (update) => {
+      received.push(update.messageText || '');
+      if (update.userPhoneNumber === '111') {
+        fromFirstUser.push(update.messageText || '');
+      }
+    });
+
+    await client.processUpdate(
+      payload(
+        [
+          messagesValue([
+            textMessage('111', 'wamid.1', 'one'),
+            textMessage('222', 'wamid.2', 'two'),
+          ]),
+          messagesValue([textMessage('111', 'wamid.3', 'three')]),
+        ],
+        [messagesValue([textMessage('333', 'wamid.4', 'four')])]
+      )
+    );
+
+    expect(received.sort()).toEqual(['four', 'one', 'three', 'two']);
+    expect(fromFirstUser).toEqual(['one', 'three']);
+  });
+
+  it('should match contacts by wa_id', async () => {
+    const client = createClient();
+    const senders: string[] = [];
+    client.onMessage(async (update) => {
+      senders.push(`${update.userDisplayName}:${update.userPhoneNumber}`);
+    });
+
+    await client.processUpdate(
+      payload([
+        messagesValue(
+          [
+            textMessage('111', 'wamid.1', 'one'),
+            textMessage('222', 'wamid.2', 'two'),
+          ],
+          [
+            { profile: { name: 'Bob' }, wa_id: '222' },
+            { profile: { name: 'Alice' }, wa_id: '111' },
+          ]
+        ),
+      ])
+    );
+
+    expect(senders).toEqual(['Alice:111', 'Bob:222']);
+  });
+
+  it('should fall back to the sender number without a contact', async () => {
+    const client = createClient();
+    let phoneNumber = '';
+    client.onMessage(async (update) => {
+      phoneNumber = update.userPhoneNumber;
+    });
+
+    await client.processUpdate(
+      payload([messagesValue([textMessage('111', 'wamid.1', 'one')])])
+    );
+
+    expect(phoneNumber).toBe('111');
+  });
+
+  it('should skip changes for other phone numbers only', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      received.push(update.messageText || '');
+    });
+
+    await client.processUpdate(
+      payload([
+        messagesValue([textMessage('111', 'wamid.1', 'other')], [], '999'),
+        messagesValue([textMessage('111', 'wamid.2', 'mine')]),
+      ])
+    );
+
+    expect(received).toEqual(['mine']);
+  });
+});
+
+describe('Dispatcher statuses', () => {
+  const statusValue: WebhookValue = {
+    messaging_product: 'whatsapp',
+    metadata: {
+      display_phone_number: '15550000000',
+      phone_number_id: '1234567890',
+    },
+    statuses: [
+      {
+        id: 'wamid.1',
+        status: 'delivered',
+        timestamp: '1700000000',
+        recipient_id: '111',
+      },
+      {
+        id: 'wamid.2',
+        status: 'failed',
+        timestamp: '1700000001',
+        recipient_id: '222',
+        errors: [{ code: 131047, title: 'Re-engagement message' }],
+      },
+    ],
+  };
+
+  it('should run status handlers for every status', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onStatus(async (status) => {
+      received.push(`${status.id}:${status.status}`);
+    });
+
+    await client.processUpdate(payload([statusValue]));
+
+    expect(received).toEqual(['wamid.1:delivered', 'wamid.2:failed']);
+  });
+
+  it('should filter statuses by type', async () => {
+    const client = createClient();
+    const codes: number[] = [];
+    client.onStatus(
+      async (status) => {
+        codes.push(...(status.errors || []).map((error) => error.code));
+      },
+      { status: 'failed' }
+    );
+
+    await client.processUpdate(payload([statusValue]));
+
+    expect(codes).toEqual([131047]);
+  });
+});
+
+describe('Dispatcher deduplication', () => {
+  it('should skip redelivered messages', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      received.push(update.messageId);
+    });
+
+    const delivery = payload([
+      messagesValue([textMessage('111', 'wamid.1', 'one')]),
+    ]);
+    await client.processUpdate(delivery);
+    await client.processUpdate(delivery);
+
+    expect(received).toEqual(['wamid.1']);
+  });
+
+  it('should skip duplicates before marking as read', async () => {
+    const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+    const markAsRead = jest
+      .spyOn(client, 'markAsRead')
+      .mockResolvedValue({} as any);
+
+    const delivery = payload([
+      messagesValue([textMessage('111', 'wamid.1', 'one')]),
+    ]);
+    await client.processUpdate(delivery);
+    await client.processUpdate(delivery);
+
+    expect(markAsRead).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom store', async () => {
+    const keys: string[] = [];
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      dedup: {
+        checkAndSet: async (key) => {
+          keys.push(key);
+          return false;
+        },
+      },
+    });
+
+    await client.processUpdate(
+      payload([messagesValue([textMessage('111', 'wamid.1', 'one')])])
+    );
+
+    expect(keys).toEqual(['message:wamid.1']);
+  });
+
+  it('should process duplicates when disabled', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      dedup: false,
+    });
+    let count = 0;
+    client.onMessage(async () => {
+      count++;
+    });
+
+    const delivery = payload([
+      messagesValue([textMessage('111', 'wamid.1', 'one')]),
+    ]);
+    await client.processUpdate(delivery);
+    await client.processUpdate(delivery);
+
+    expect(count).toBe(2);
+  });
+});
+
+describe('Dispatcher scheduling', () => {
+  function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  it('should keep strict ordering per user', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      // Earlier messages take longer, so order would flip if run in parallel
+      await delay(update.messageText === 'first' ? 30 : 0);
+      received.push(update.messageText || '');
+    });
+
+    await Promise.all([
+      client.processUpdate(
+        payload([messagesValue([textMessage('111', 'wamid.1', 'first')])])
+      ),
+      client.processUpdate(
+        payload([messagesValue([textMessage('111', 'wamid.2', 'second')])])
+      ),
+    ]);
+
+    expect(received).toEqual(['first', 'second']);
+  });
+
+  it('should not block other users behind a slow handler', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      if (update.userPhoneNumber === '111') {
+        await delay(50);
+      }
+      received.push(update.userPhoneNumber);
+    });
+
+    await client.processUpdate(
+      payload([
+        messagesValue([
+          textMessage('111', 'wamid.1', 'slow'),
+          textMessage('222', 'wamid.2', 'fast'),
+        ]),
+      ])
+    );
+
+    expect(received).toEqual(['222', '111']);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      concurrency: 1,
+    });
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      if (update.userPhoneNumber === '111') {
+        await delay(30);
+      }
+      received.push(update.userPhoneNumber);
+    });
+
+    await client.processUpdate(
+      payload([
+        messagesValue([
+          textMessage('111', 'wamid.1', 'slow'),
+          textMessage('222', 'wamid.2', 'fast'),
+        ]),
+      ])
+    );
+
+    expect(received).toEqual(['111', '222']);
+  });
+
+  it('should take turns between users with backlogs', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      concurrency: 1,
+    });
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      received.push(update.messageText || '');
+    });
+
+    await client.processUpdate(
+      payload([
+        messagesValue([
+          textMessage('111', 'wamid.1', 'a1'),
+          textMessage('222', 'wamid.2', 'b1'),
+          textMessage('111', 'wamid.3', 'a2'),
+          textMessage('111', 'wamid.4', 'a3'),
+          textMessage('111', 'wamid.5', 'a4'),
+        ]),
+      ])
+    );
+
+    expect(received).toEqual(['a1', 'b1', 'a2', 'a3', 'a4']);
+  });
+
+  it('should report per-user queue depths', async () => {
+    const client = createClient();
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    client.onMessage(async () => {
+      await blocked;
+    });
+
+    const processing = client.processUpdate(
+      payload([
+        messagesValue([
+          textMessage('111', 'wamid.1', 'one'),
+          textMessage('111', 'wamid.2', 'two'),
+          textMessage('222', 'wamid.3', 'three'),
+        ]),
+      ])
+    );
+    await delay(0);
+
+    expect(client.getQueueStatus()).toEqual({
+      size: 1,
+      isProcessing: true,
+      inFlight: 2,
+      users: {
+        '111': { queued: 1, inFlight: 1 },
+        '222': { queued: 0, inFlight: 1 },
+      },
+      fields: {},
+    });
+
+    release();
+    await processing;
+    expect(client.getQueueStatus().users).toEqual({});
+  });
+});
+
+describe('Dispatcher error isolation', () => {
+  const failingPayload = (): WebhookPayload =>
+    payload([
+      messagesValue([
+        textMessage('111', 'wamid.1', 'fail'),
+        textMessage('111', 'wamid.2', 'ok'),
+      ]),
+    ]);
+
+  it('should not stall later updates after a throwing handler', async () => {
+    const client = createClient();
+    client.onError(() => undefined);
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      if (update.messageText === 'fail') {
+        throw new Error('boom');
+      }
+      received.push(update.messageText || '');
+    });
+
+    await expect(client.processUpdate(failingPayload())).resolves.toBe(
+      undefined
+    );
+    await client.processUpdate(
+      payload([messagesValue([textMessage('111', 'wamid.3', 'later')])])
+    );
+
+    expect(received).toEqual(['ok', 'later']);
+    expect(client.getQueueStatus()).toMatchObject({
+      size: 0,
+      isProcessing: false,
+    });
+  });
+
+  it('should pass the error, update and handler to onError', async () => {
+    const client = createClient();
+    const calls: Array<[unknown, unknown, unknown]> = [];
+    client.onError((error, update, handler) => {
+      calls.push([error, update, handler]);
+    });
+    client.onMessage(async (update) => {
+      if (update.messageText === 'fail') {
+        throw new Error('boom');
+      }
+    });
+
+    await client.processUpdate(failingPayload());
+
+    expect(calls).toHaveLength(1);
+    const [error, update, handler] = calls[0];
+    expect((error as Error).message).toBe('boom');
+    expect((update as any).messageId).toBe('wamid.1');
+    expect(handler).toBe(client['dispatcher'].getHandlers()[0]);
+  });
+
+  it('should isolate throwing status handlers', async () => {
+    const client = createClient();
+    const errors: unknown[] = [];
+    const received: string[] = [];
+    client.onError((error) => {
+      errors.push(error);
+    });
+    client.onStatus(() => {
+      throw new Error('status boom');
+    });
+    client.onStatus((status) => {
+      received.push(status.id);
+    });
+
+    await client.processUpdate(
+      payload([
+        {
+          messaging_product: 'whatsapp',
+          metadata: {
+            display_phone_number: '15550000000',
+            phone_number_id: '1234567890',
+          },
+          statuses: [
+            {
+              id: 'wamid.1',
+              status: 'read',
+              timestamp: '1700000000',
+              recipient_id: '111',
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(received).toEqual(['wamid.1']);
+  });
+
+  it('should send the fallback reply when a handler fails', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      errorReply: 'Something went wrong, please try again.',
+    });
+    client.onError(() => undefined);
+    const sendMessage = jest
+      .spyOn(client, 'sendMessage')
+      .mockResolvedValue({} as any);
+    client.onMessage(async () => {
+      throw new Error('boom');
+    });
+
+    await client.processUpdate(
+      payload([messagesValue([textMessage('111', 'wamid.1', 'hi')])])
+    );
+
+    expect(sendMessage).toHaveBeenCalledWith(
+      '111',
+      'Something went wrong, please try again.',
+      { msgId: 'wamid.1' }
+    );
+  });
+
+  it('should survive a throwing onError hook', async () => {
+    const client = createClient();
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    client.onError(() => {
+      throw new Error('hook boom');
+    });
+    client.onMessage(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(client.processUpdate(failingPayload())).resolves.toBe(
+      undefined
+    );
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('Dispatcher webhook fields', () => {
+  const templateUpdate = {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: 'waba_1',
+        changes: [
+          {
+            field: 'message_template_status_update',
+            value: {
+              event: 'REJECTED',
+              message_template_id: 123,
+              message_template_name: 'order_update',
+              message_template_language: 'en_US',
+              reason: 'INCORRECT_CATEGORY',
+            },
+          },
+        ],
+      },
+    ],
+  } as unknown as WebhookPayload;
+
+  it('should route changes to handlers of their field', async () => {
+    const client = createClient();
+    const received: string[] = [];
+    client.onTemplateStatusUpdate(async (value, wabaId) => {
+      received.push(`${wabaId}:${value.message_template_name}:${value.event}`);
+    });
+    client.onAccountAlert(async () => {
+      received.push('alert');
+    });
+
+    await client.processUpdate(templateUpdate);
+
+    expect(received).toEqual(['waba_1:order_update:REJECTED']);
+  });
+
+  it('should report queued fields apart from users', async () => {
+    const client = createClient();
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    client.onTemplateStatusUpdate(async () => {
+      await blocked;
+    });
+
+    const processing = client.processUpdate(templateUpdate);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(client.getQueueStatus()).toMatchObject({
+      users: {},
+      fields: { message_template_status_update: { queued: 0, inFlight: 1 } },
+    });
+
+    release();
+    await processing;
+  });
+
+  it('should support untyped fields', async () => {
+    const client = createClient();
+    const values: unknown[] = [];
+    client.onWebhookField('business_capability_update', (value) => {
+      values.push(value);
+    });
+
+    await client.processUpdate({
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'waba_1',
+          changes: [
+            {
+              field: 'business_capability_update',
+              value: { max_daily_conversation_per_phone: 1000 } as any,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(values).toEqual([{ max_daily_conversation_per_phone: 1000 }]);
+  });
+});
+
+describe('Dispatcher read receipts', () => {
+  function readClient(): { client: WhatsApp; events: string[] } {
+    const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+    const events: string[] = [];
+    jest.spyOn(client, 'markAsRead').mockImplementation(async () => {
+      events.push('read');
+      return {} as any;
+    });
+    jest.spyOn(client, 'showTypingIndicator').mockImplementation(async () => {
+      events.push('typing');
+      return {} as any;
+    });
+    return { client, events };
+  }
+
+  const delivery = payload([
+    messagesValue([textMessage('111', 'wamid.1', 'one')]),
+  ]);
+
+  it('should mark messages as read before the handler runs', async () => {
+    const { client, events } = readClient();
+    client.onMessage(() => {
+      events.push('handler');
+    });
+
+    await client.processUpdate(delivery);
+    await client.drain();
+
+    expect(events).toEqual(['read', 'handler']);
+  });
+
+  it('should defer the read receipt until the handler finishes', async () => {
+    const { client, events } = readClient();
+    client.onMessage(
+      () => {
+        events.push('handler');
+        throw new Error('failed');
+      },
+      { deferRead: true }
+    );
+    client.onError(() => undefined);
+
+    await client.processUpdate(delivery);
+    await client.drain();
+
+    expect(events).toEqual(['handler', 'read']);
+  });
+
+  it('should not mark as read again after showing typing', async () => {
+    const { client, events } = readClient();
+    client.onMessage(
+      async (update) => {
+        await update.showTyping();
+        events.push('handler');
+      },
+      { deferRead: true }
+    );
+
+    await client.processUpdate(delivery);
+    await client.drain();
+
+    expect(events).toEqual(['typing', 'handler']);
+  });
+
+  it('should mark unhandled messages as read', async () => {
+    const { client, events } = readClient();
+
+    await client.processUpdate(delivery);
+    await client.drain();
+
+    expect(events).toEqual(['read']);
+  });
+
+  it('should refresh the typing indicator while simulating typing', async () => {
+    jest.useFakeTimers();
+    try {
+      const { client, events } = readClient();
+      let typed: Promise<void> | undefined;
+      client.onMessage((update) => {
+        typed = update.simulateTyping(45000);
+      });
+
+      await client.processUpdate(delivery);
+      await client.drain();
+      await jest.advanceTimersByTimeAsync(45000);
+      await typed;
+
+      expect(events).toEqual(['read', 'typing', 'typing', 'typing']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Tests for the WhatsApp Flows endpoint
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  constants,
+  generateKeyPairSync,
+  publicEncrypt,
+  randomBytes,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
+import {
+  FlowEndpoint,
+  decryptFlowRequest,
+  encryptFlowResponse,
+} from '../src/FlowEndpoint';
+import { FlowDecryptionError, FlowEndpointError } from '../src/errors';
+import { WebhookServer } from '../src/WebhookServer';
+import { fetchHandler } from '../src/adapters';
+import { WhatsApp } from '../src/WhatsApp';
+import type {
+  EncryptedFlowRequest,
+  FlowEndpointRequest,
+  FlowEndpointResponse,
+} from '../src/types';
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+
+/**
+ * Encrypt a request the way the WhatsApp client does
+ */
+function encryptRequest(
+  body: FlowEndpointRequest,
+  key: KeyObject = publicKey
+): { request: EncryptedFlowRequest; aesKey: Buffer; iv: Buffer } {
+  const aesKey = randomBytes(16);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-128-gcm', aesKey, iv);
+  const flowData = Buffer.concat([
+    cipher.update(JSON.stringify(body), 'utf-8'),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return {
+    request: {
+      encrypted_flow_data: flowData.toString('base64'),
+      encrypted_aes_key: publicEncrypt(
+        { key, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+        aesKey
+      ).toString('base64'),
+      initial_vector: iv.toString('base64'),
+    },
+    aesKey,
+    iv,
+  };
+}
+
+/**
+ * Decrypt a response the way the WhatsApp client does
+ */
+function decryptResponse(
+  body: string,
+  aesKey: Buffer,
+  iv: Buffer
+): FlowEndpointResponse {
+  const data = Buffer.from(body, 'base64');
+  const flippedIv = Buffer.from(iv.map((byte) => ~byte & 0xff));
+  const decipher = createDecipheriv('aes-128-gcm', aesKey, flippedIv);
+  decipher.setAuthTag(data.subarray(-16));
+  return JSON.parse(
+    Buffer.concat([
+      decipher.update(data.subarray(0, -16)),
+      decipher.final(),
+    ]).toString('utf-8')
+  );
+}
+
+function createEndpoint(appSecret?: string): FlowEndpoint {
+  const endpoint = new FlowEndpoint({ privateKey, appSecret });
+  endpoint.onInit(() => ({ screen: 'WELCOME', data: { greeting: 'Hi' } }));
+  endpoint.onScreen('WELCOME', (request) => ({
+    screen: 'SUCCESS',
+    data: {
+      extension_message_response: {
+        params: { flow_token: request.flow_token, name: request.data?.name },
+      },
+    },
+  }));
+  return endpoint;
+}
+
+async function exchange(
+  endpoint: FlowEndpoint,
+  body: FlowEndpointRequest
+): Promise<{ status: number; response?: FlowEndpointResponse }> {
+  const { request, aesKey, iv } = encryptRequest(body);
+  const result = await endpoint.handleRequest({
+    method: 'POST',
+    query: {},
+    rawBody: JSON.stringify(request),
+  });
+
+  return {
+    status: result.status,
+    response:
+      result.status === 200
+        ? decryptResponse(result.body, aesKey, iv)
+        : undefined,
+  };
+}
+
+describe('decryptFlowRequest / encryptFlowResponse', () => {
+  it('should round-trip a request and response', () => {
+    const body: FlowEndpointRequest = {
+      version: '3.0',
+      action: 'INIT',
+      flow_token: 'token',
+    };
+    const { request, aesKey, iv } = encryptRequest(body);
+
+    const decrypted = decryptFlowRequest(request, privateKey);
+    expect(decrypted.body).toEqual(body);
+    expect(decrypted.aesKey.equals(aesKey)).toBe(true);
+
+    const encrypted = encryptFlowResponse(
+      { screen: 'NEXT' },
+      decrypted.aesKey,
+      decrypted.initialVector
+    );
+    expect(decryptResponse(encrypted, aesKey, iv)).toEqual({ screen: 'NEXT' });
+  });
+
+  it('should throw FlowDecryptionError for another key', () => {
+    const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const { request } = encryptRequest(
+      { version: '3.0', action: 'ping' },
+      other.publicKey
+    );
+
+    expect(() => decryptFlowRequest(request, privateKey)).toThrow(
+      FlowDecryptionError
+    );
+  });
+});
+
+describe('FlowEndpoint', () => {
+  it('should answer health checks', async () => {
+    const result = await exchange(createEndpoint(), {
+      version: '3.0',
+      action: 'ping',
+    });
+    expect(result).toEqual({
+      status: 200,
+      response: { data: { status: 'active' } },
+    });
+  });
+
+  it('should route INIT and data_exchange requests', async () => {
+    const endpoint = createEndpoint();
+
+    const init = await exchange(endpoint, {
+      version: '3.0',
+      action: 'INIT',
+      flow_token: 'token',
+    });
+    expect(init.response).toEqual({
+      screen: 'WELCOME',
+      data: { greeting: 'Hi' },
+    });
+
+    const submit = await exchange(endpoint, {
+      version: '3.0',
+      action: 'data_exchange',
+      screen: 'WELCOME',
+      data: { name: 'Jane' },
+      flow_token: 'token',
+    });
+    expect(submit.response?.data?.extension_message_response.params).toEqual({
+      flow_token: 'token',
+      name: 'Jane',
+    });
+  });
+
+  it('should pass BACK requests to the screen handler without onBack', async () => {
+    const result = await exchange(createEndpoint(), {
+      version: '3.0',
+      action: 'BACK',
+      screen: 'WELCOME',
+      flow_token: 'token',
+    });
+    expect(result.response?.screen).toBe('SUCCESS');
+  });
+
+  it('should acknowledge error notifications', async () => {
+    const result = await exchange(createEndpoint(), {
+      version: '3.0',
+      action: 'data_exchange',
+      screen: 'WELCOME',
+      data: { error: 'invalid-screen', error_message: 'Bad data' },
+    });
+    expect(result.response).toEqual({ data: { acknowledged: true } });
+  });
+
+  it('should answer 500 for unknown screens', async () => {
+    const result = await exchange(createEndpoint(), {
+      version: '3.0',
+      action: 'data_exchange',
+      screen: 'UNKNOWN',
+    });
+    expect(result.status).toBe(500);
+  });
+
+  it('should answer with the status of a FlowEndpointError', async () => {
+    const endpoint = new FlowEndpoint({ privateKey });
+    endpoint.onInit(() => {
+      throw new FlowEndpointError(427, 'Flow token expired');
+    });
+
+    const result = await exchange(endpoint, {
+      version: '3.0',
+      action: 'INIT',
+    });
+    expect(result.status).toBe(427);
+  });
+
+  it('should answer 421 when the request cannot be decrypted', async () => {
+    const result = await createEndpoint().handleRequest({
+      method: 'POST',
+      query: {},
+      rawBody: JSON.stringify({
+        encrypted_flow_data: 'AAAA',
+        encrypted_aes_key: 'AAAA',
+        initial_vector: 'AAAA',
+      }),
+    });
+    expect(result.status).toBe(421);
+  });
+
+  it('should answer 400 for malformed bodies', async () => {
+    const endpoint = createEndpoint();
+
+    for (const rawBody of ['{oops', 'null', JSON.stringify({ version: 3 })]) {
+      const result = await endpoint.handleRequest({
+        method: 'POST',
+        query: {},
+        rawBody,
+      });
+      expect(result.status).toBe(400);
+    }
+  });
+
+  it('should answer 432 for invalid signatures', async () => {
+    const { request } = encryptRequest({ version: '3.0', action: 'ping' });
+    const result = await createEndpoint('app_secret').handleRequest({
+      method: 'POST',
+      query: {},
+      rawBody: JSON.stringify(request),
+      headers: { 'x-hub-signature-256': 'sha256=00' },
+    });
+    expect(result.status).toBe(432);
+  });
+});
+
+describe('FlowEndpoint integrations', () => {
+  it('should be served by the webhook server on the flow path', async () => {
+    const server = new WebhookServer(
+      new WhatsApp({ numberId: '1234567890', token: 'token' }),
+      { port: 0, host: '127.0.0.1', flowEndpoint: createEndpoint() }
+    );
+    await server.start();
+
+    try {
+      const { request, aesKey, iv } = encryptRequest({
+        version: '3.0',
+        action: 'ping',
+      });
+      const response = await fetch(`http://127.0.0.1:${server.port}/flow`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+
+      expect(response.status).toBe(200);
+      expect(decryptResponse(await response.text(), aesKey, iv)).toEqual({
+        data: { status: 'active' },
+      });
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('should be served by adapters', async () => {
+    const handler = fetchHandler(createEndpoint('app_secret'));
+    const { request, aesKey, iv } = encryptRequest({
+      version: '3.0',
+      action: 'INIT',
+    });
+    const body = JSON.stringify(request);
+
+    const response = await handler(
+      new Request('https://example.com/flow', {
+        method: 'POST',
+        headers: {
+          'X-Hub-Signature-256': `sha256=${createHmac('sha256', 'app_secret')
+            .update(body)
+            .digest('hex')}`,
+        },
+        body,
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(decryptResponse(await response.text(), aesKey, iv).screen).toBe(
+      'WELCOME'
+    );
+  });
+});
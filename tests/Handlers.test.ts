@@ -0,0 +1,408 @@
+/**
+ * Tests for message type handlers
+ */
+
+import { WhatsApp } from '../src/WhatsApp';
+import type { Update } from '../src/Update';
+import type { WebhookPayload, WhatsAppMessage } from '../src/types';
+
+function payload(message: WhatsAppMessage): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: 'waba_id',
+        changes: [
+          {
+            field: 'messages',
+            value: {
+              messaging_product: 'whatsapp',
+              metadata: {
+                display_phone_number: '15550000000',
+                phone_number_id: '1234567890',
+              },
+              contacts: [{ profile: { name: 'Jane' }, wa_id: message.from }],
+              messages: [message],
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function createClient(): WhatsApp {
+  return new WhatsApp({
+    numberId: '1234567890',
+    token: 'token',
+    markAsRead: false,
+  });
+}
+
+async function receive(
+  client: WhatsApp,
+  message: Partial<WhatsAppMessage>
+): Promise<void> {
+  await client.processUpdate(
+    payload({
+      from: '15551234567',
+      id: 'wamid.1',
+      timestamp: '1700000000',
+      type: 'text',
+      ...message,
+    } as WhatsAppMessage)
+  );
+  await client.drain();
+}
+
+describe('ContactsHandler', () => {
+  it('should put shared contacts on the update', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onContactsMessage(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, {
+      type: 'contacts',
+      contacts: [
+        {
+          name: { formatted_name: 'John Smith', first_name: 'John' },
+          phones: [{ phone: '+1 555 0100', wa_id: '15550100', type: 'CELL' }],
+        },
+        { name: { formatted_name: 'Acme Support' } },
+      ],
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].messageText).toBe('John Smith, Acme Support');
+    expect(updates[0].contacts?.[0].phones?.[0].wa_id).toBe('15550100');
+  });
+});
+
+describe('ReactionHandler', () => {
+  it('should expose the reacted message and emoji', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onReaction(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, {
+      type: 'reaction',
+      reaction: { message_id: 'wamid.sent', emoji: '👍' },
+    });
+
+    expect(updates[0].reactionMessageId).toBe('wamid.sent');
+    expect(updates[0].reactionEmoji).toBe('👍');
+    expect(updates[0].messageText).toBe('👍');
+  });
+
+  it('should report removed reactions with an empty emoji', async () => {
+    const client = createClient();
+    const removed: string[] = [];
+    client.onReaction(
+      async (update) => {
+        removed.push(update.reactionMessageId || '');
+      },
+      { filter: (emoji) => emoji === '' }
+    );
+
+    await receive(client, {
+      type: 'reaction',
+      reaction: { message_id: 'wamid.sent' },
+    });
+
+    expect(removed).toEqual(['wamid.sent']);
+  });
+});
+
+describe('TemplateButtonHandler', () => {
+  it('should match quick-reply buttons by payload', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onTemplateButton(
+      async (update) => {
+        updates.push(update);
+      },
+      { regex: /^STOP/ }
+    );
+
+    await receive(client, {
+      type: 'button',
+      button: { text: 'Unsubscribe', payload: 'STOP_PROMOTIONS' },
+      context: { from: '15550000000', id: 'wamid.template' },
+    });
+    await receive(client, {
+      id: 'wamid.2',
+      type: 'button',
+      button: { text: 'Yes', payload: 'CONFIRM' },
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].buttonPayload).toBe('STOP_PROMOTIONS');
+    expect(updates[0].buttonText).toBe('Unsubscribe');
+  });
+});
+
+describe('FlowResponseHandler', () => {
+  const flowReply = {
+    type: 'interactive' as const,
+    interactive: {
+      type: 'nfm_reply' as const,
+      nfm_reply: {
+        name: 'flow',
+        body: 'Sent',
+        response_json: '{"flow_token":"signup-1","email":"jane@example.com"}',
+      },
+    },
+  };
+
+  it('should parse the flow response', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onFlowResponse(
+      async (update) => {
+        updates.push(update);
+      },
+      { regex: /^signup-/ }
+    );
+
+    await receive(client, flowReply);
+
+    expect(updates[0].flowResponse).toEqual({
+      flow_token: 'signup-1',
+      email: 'jane@example.com',
+    });
+    expect(updates[0].messageText).toBe('signup-1');
+  });
+
+  it('should not be swallowed by interactive handlers', async () => {
+    const client = createClient();
+    const handled: string[] = [];
+    client.onInteractiveMessage(async () => {
+      handled.push('interactive');
+    });
+    client.onFlowResponse(async () => {
+      handled.push('flow');
+    });
+
+    await receive(client, flowReply);
+
+    expect(handled).toEqual(['flow']);
+  });
+});
+
+describe('OrderHandler', () => {
+  it('should expose the order and its total', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onOrder(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, {
+      type: 'order',
+      order: {
+        catalog_id: 'catalog_1',
+        text: 'Please deliver tomorrow',
+        product_items: [
+          {
+            product_retailer_id: 'sku_1',
+            quantity: 2,
+            item_price: 9.99,
+            currency: 'EUR',
+          },
+          {
+            product_retailer_id: 'sku_2',
+            quantity: 1,
+            item_price: 5,
+            currency: 'EUR',
+          },
+        ],
+      },
+    });
+
+    expect(updates[0].messageText).toBe('Please deliver tomorrow');
+    expect(updates[0].order?.catalog_id).toBe('catalog_1');
+    expect(updates[0].orderTotal).toBe(24.98);
+  });
+});
+
+describe('Referral option', () => {
+  const referral = {
+    source_url: 'https://fb.me/ad',
+    source_id: 'ad_1',
+    source_type: 'ad',
+    headline: 'Summer sale',
+    media_type: 'image' as const,
+    image_url: 'https://example.com/ad.jpg',
+    ctwa_clid: 'clid_1',
+  };
+
+  it('should put the referral on every update', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onMessage(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, { text: { body: 'Hi' }, referral });
+
+    expect(updates[0].referral).toEqual(referral);
+  });
+
+  it('should route ad leads to referral handlers', async () => {
+    const client = createClient();
+    const handled: string[] = [];
+    client.onMessage(
+      async (update) => {
+        handled.push(`lead:${update.referral?.source_id}`);
+      },
+      { referral: (r) => r.source_type === 'ad' }
+    );
+    client.onMessage(
+      async (update) => {
+        handled.push(`organic:${update.messageText}`);
+      },
+      { referral: false }
+    );
+
+    await receive(client, { text: { body: 'Hi' }, referral });
+    await receive(client, { id: 'wamid.2', text: { body: 'Hello' } });
+
+    expect(handled).toEqual(['lead:ad_1', 'organic:Hello']);
+  });
+});
+
+describe('Reply context', () => {
+  const quoted = { from: '15550000000', id: 'wamid.quoted' };
+
+  it('should put the quoted message context on the update', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onMessage(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, { text: { body: 'Yes' }, context: quoted });
+    await receive(client, {
+      id: 'wamid.2',
+      text: { body: 'Look' },
+      context: { forwarded: true },
+    });
+
+    expect(updates[0].replyTo).toEqual(quoted);
+    expect(updates[1].replyTo?.forwarded).toBe(true);
+    expect(await updates[1].getQuotedMessage()).toBeUndefined();
+  });
+
+  it('should match only replies to a given message', async () => {
+    const client = createClient();
+    const handled: string[] = [];
+    client.onMessage(
+      async (update) => {
+        handled.push(`reply:${update.messageText}`);
+      },
+      { replyTo: 'wamid.quoted' }
+    );
+    client.onMessage(async (update) => {
+      handled.push(`other:${update.messageText}`);
+    });
+
+    await receive(client, { text: { body: 'Yes' }, context: quoted });
+    await receive(client, {
+      id: 'wamid.2',
+      text: { body: 'No' },
+      context: { from: '15550000000', id: 'wamid.other' },
+    });
+
+    expect(handled).toEqual(['reply:Yes', 'other:No']);
+  });
+
+  it('should return the quoted message from the message log', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+      messageLog: true,
+    });
+    const sent = {
+      id: 'wamid.quoted',
+      to: '15551234567',
+      payload: { type: 'text', text: { body: 'Continue?' } },
+      timestamp: 0,
+    };
+    jest.spyOn(client, 'getSentMessage').mockResolvedValue(sent);
+
+    const quotedMessages: unknown[] = [];
+    client.onMessage(async (update) => {
+      quotedMessages.push(await update.getQuotedMessage());
+    });
+
+    await receive(client, { text: { body: 'Yes' }, context: quoted });
+
+    expect(quotedMessages).toEqual([sent]);
+  });
+});
+
+describe('SystemHandler', () => {
+  it('should expose customer number changes', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onSystemMessage(async (update) => {
+      updates.push(update);
+    });
+
+    await receive(client, {
+      type: 'system',
+      system: {
+        body: 'Jane changed from 15551234567 to 15557654321',
+        type: 'customer_changed_number',
+        new_wa_id: '15557654321',
+        wa_id: '15551234567',
+      },
+    });
+
+    expect(updates[0].system?.type).toBe('customer_changed_number');
+    expect(updates[0].system?.new_wa_id).toBe('15557654321');
+    expect(updates[0].messageText).toContain('changed from');
+  });
+});
+
+describe('UnsupportedHandler', () => {
+  it('should expose the errors array', async () => {
+    const client = createClient();
+    const updates: Update[] = [];
+    client.onUnsupported(async (update) => {
+      updates.push(update);
+    });
+    const errors = [
+      {
+        code: 131051,
+        title: 'Message type unknown',
+        message: 'Message type unknown',
+        error_data: { details: 'Message type is currently not supported.' },
+      },
+    ];
+
+    await receive(client, { type: 'unsupported', errors });
+
+    expect(updates[0].errors).toEqual(errors);
+  });
+
+  it('should register unknown message handlers', async () => {
+    const client = createClient();
+    const codes: number[] = [];
+    client.onUnknown(async (update) => {
+      codes.push(update.errors?.[0]?.code ?? 0);
+    });
+
+    await receive(client, {
+      type: 'unknown',
+      errors: [{ code: 131051, title: 'Unsupported message type' }],
+    });
+
+    expect(codes).toEqual([131051]);
+  });
+});
@@ -9,6 +9,11 @@ import {
   ListSection,
   InlineList,
   InlineLocationRequest,
+  InlineFlow,
+  InlineProduct,
+  ProductSection,
+  InlineProductList,
+  InlineCatalog,
 } from '../src/Markup';
 
 describe('InlineButton', () => {
@@ -169,3 +174,124 @@ describe('InlineLocationRequest', () => {
     expect(locationRequest.markup.name).toBe('send_location');
   });
 });
+
+describe('InlineFlow', () => {
+  it('should create a navigate flow', () => {
+    const flow = new InlineFlow('Sign up', {
+      flowId: '123',
+      token: 'signup-1',
+      screen: 'WELCOME',
+      data: { name: 'Jane' },
+    });
+    expect(flow.type).toBe('flow');
+    expect(flow.markup).toEqual({
+      name: 'flow',
+      parameters: {
+        flow_message_version: '3',
+        flow_cta: 'Sign up',
+        flow_action: 'navigate',
+        flow_id: '123',
+        flow_token: 'signup-1',
+        flow_action_payload: { screen: 'WELCOME', data: { name: 'Jane' } },
+      },
+    });
+  });
+
+  it('should create a data_exchange flow by name', () => {
+    const flow = new InlineFlow('Book', {
+      flowName: 'booking',
+      action: 'data_exchange',
+    });
+    expect(flow.markup.parameters.flow_name).toBe('booking');
+    expect(flow.markup.parameters.flow_action_payload).toBeUndefined();
+  });
+
+  it('should require exactly one of flowId or flowName', () => {
+    expect(() => {
+      new InlineFlow('Go', { screen: 'A' });
+    }).toThrow('Flow requires exactly one of flowId or flowName');
+    expect(() => {
+      new InlineFlow('Go', { flowId: '1', flowName: 'x', screen: 'A' });
+    }).toThrow('Flow requires exactly one of flowId or flowName');
+  });
+
+  it('should require a screen for navigate', () => {
+    expect(() => {
+      new InlineFlow('Go', { flowId: '1' });
+    }).toThrow('Flow screen is required for the navigate action');
+  });
+
+  it('should throw error for CTA longer than 30 characters', () => {
+    expect(() => {
+      new InlineFlow('x'.repeat(31), { flowId: '1', screen: 'A' });
+    }).toThrow('Flow CTA must be 1-30 characters');
+  });
+});
+
+describe('InlineProduct', () => {
+  it('should create a single product message', () => {
+    const product = new InlineProduct('catalog_1', 'sku_1');
+    expect(product.type).toBe('product');
+    expect(product.markup).toEqual({
+      catalog_id: 'catalog_1',
+      product_retailer_id: 'sku_1',
+    });
+  });
+});
+
+describe('InlineProductList', () => {
+  it('should create a product list with sections', () => {
+    const list = new InlineProductList('catalog_1', [
+      new ProductSection('Shoes', ['sku_1', 'sku_2']),
+      new ProductSection('Socks', ['sku_3']),
+    ]);
+    expect(list.type).toBe('product_list');
+    expect(list.markup.sections[0]).toEqual({
+      title: 'Shoes',
+      product_items: [
+        { product_retailer_id: 'sku_1' },
+        { product_retailer_id: 'sku_2' },
+      ],
+    });
+  });
+
+  it('should throw error for more than 30 products', () => {
+    const ids = Array.from({ length: 16 }, (_, i) => `sku_${i}`);
+    expect(() => {
+      new InlineProductList('catalog_1', [
+        new ProductSection('A', ids),
+        new ProductSection('B', ids),
+      ]);
+    }).toThrow('Product list can have maximum 30 products, got 32');
+  });
+
+  it('should throw error for more than 10 sections', () => {
+    const sections = Array.from(
+      { length: 11 },
+      (_, i) => new ProductSection(`Section ${i}`, [`sku_${i}`])
+    );
+    expect(() => {
+      new InlineProductList('catalog_1', sections);
+    }).toThrow('Product list must have 1-10 sections, got 11');
+  });
+
+  it('should require titles when there are several sections', () => {
+    expect(() => {
+      new InlineProductList('catalog_1', [
+        new ProductSection('', ['sku_1']),
+        new ProductSection('Socks', ['sku_2']),
+      ]);
+    }).toThrow('Every section needs a title when there are several');
+  });
+});
+
+describe('InlineCatalog', () => {
+  it('should create a catalog message with a thumbnail', () => {
+    const catalog = new InlineCatalog('sku_1');
+    expect(catalog.type).toBe('catalog_message');
+    expect(catalog.markup).toEqual({
+      name: 'catalog_message',
+      parameters: { thumbnail_product_retailer_id: 'sku_1' },
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for media validation
+ */
+
+import {
+  inferMediaType,
+  isAnimatedWebp,
+  validateMedia,
+} from '../src/MediaValidation';
+import { MediaValidationError } from '../src/errors';
+
+function webp(size: number, animated: boolean): Buffer {
+  const data = Buffer.alloc(size);
+  data.write('RIFF', 0, 'ascii');
+  data.write('WEBP', 8, 'ascii');
+  data.write('VP8X', 12, 'ascii');
+  data[20] = animated ? 0x02 : 0;
+  return data;
+}
+
+describe('Media validation', () => {
+  it('should infer the media type from the MIME type', () => {
+    expect(inferMediaType('image/jpeg')).toBe('image');
+    expect(inferMediaType('video/3gpp')).toBe('video');
+    expect(inferMediaType('audio/ogg')).toBe('audio');
+    expect(inferMediaType('application/pdf')).toBe('document');
+    expect(inferMediaType('image/webp')).toBe('sticker');
+    expect(inferMediaType('image/gif')).toBeUndefined();
+    expect(inferMediaType(undefined)).toBeUndefined();
+  });
+
+  it('should detect animated webp', () => {
+    expect(isAnimatedWebp(webp(64, true))).toBe(true);
+    expect(isAnimatedWebp(webp(64, false))).toBe(false);
+    expect(isAnimatedWebp(Buffer.from('not a webp image at all'))).toBe(false);
+  });
+
+  it('should reject MIME types not allowed for the type', () => {
+    expect(() => validateMedia('image', 'image/webp')).toThrow(
+      MediaValidationError
+    );
+    expect(() => validateMedia('document', 'text/plain')).not.toThrow();
+  });
+
+  it('should enforce size limits', () => {
+    expect(() =>
+      validateMedia('audio', 'audio/mpeg', Buffer.alloc(16 * 1024 * 1024))
+    ).not.toThrow();
+
+    try {
+      validateMedia('audio', 'audio/mpeg', Buffer.alloc(16 * 1024 * 1024 + 1));
+      fail('expected a MediaValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MediaValidationError);
+      expect(error).toMatchObject({
+        mediaType: 'audio',
+        size: 16 * 1024 * 1024 + 1,
+        maxSize: 16 * 1024 * 1024,
+      });
+    }
+  });
+
+  it('should allow larger animated stickers', () => {
+    expect(() =>
+      validateMedia('sticker', 'image/webp', webp(200 * 1024, false))
+    ).toThrow(MediaValidationError);
+    expect(() =>
+      validateMedia('sticker', 'image/webp', webp(200 * 1024, true))
+    ).not.toThrow();
+    expect(() =>
+      validateMedia('sticker', 'image/webp', webp(501 * 1024, true))
+    ).toThrow(MediaValidationError);
+  });
+});
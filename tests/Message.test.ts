@@ -0,0 +1,290 @@
+/**
+ * Tests for outgoing message payloads
+ */
+
+import axios from 'axios';
+import { mkdtemp, writeFile, rm, truncate } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { WhatsApp } from '../src/WhatsApp';
+import { Update } from '../src/Update';
+import { MediaValidationError } from '../src/errors';
+
+function createClient(): WhatsApp {
+  return new WhatsApp({
+    numberId: '1234567890',
+    token: 'token',
+    markAsRead: false,
+  });
+}
+
+describe('Message payloads', () => {
+  let post: jest.SpyInstance;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  describe('reactions', () => {
+    it('should send a reaction', async () => {
+      await createClient().sendReaction('+1 555 123 4567', 'wamid.1', '❤️');
+
+      expect(post).toHaveBeenCalledWith(
+        'https://graph.facebook.com/v21.0/1234567890/messages',
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: '15551234567',
+          type: 'reaction',
+          reaction: { message_id: 'wamid.1', emoji: '❤️' },
+        },
+        expect.any(Object)
+      );
+    });
+
+    it('should react to the message of an update', async () => {
+      const update = new Update(
+        createClient(),
+        { messaging_product: 'whatsapp', contacts: [] } as any,
+        {
+          from: '15551234567',
+          id: 'wamid.2',
+          timestamp: '1700000000',
+          type: 'text',
+        }
+      );
+
+      await update.react('');
+
+      expect(post.mock.calls[0][1]).toMatchObject({
+        to: '15551234567',
+        reaction: { message_id: 'wamid.2', emoji: '' },
+      });
+    });
+  });
+
+  describe('typing indicators', () => {
+    it('should mark as read with a typing indicator', async () => {
+      await createClient().showTypingIndicator('wamid.1');
+
+      expect(post.mock.calls[0][1]).toEqual({
+        messaging_product: 'whatsapp',
+        status: 'read',
+        message_id: 'wamid.1',
+        typing_indicator: { type: 'text' },
+      });
+    });
+  });
+
+  describe('message log', () => {
+    beforeEach(() => {
+      post.mockImplementation(async (_url: string, data: unknown) => ({
+        data: { messages: [{ id: 'wamid.sent' }] },
+        config: { data: JSON.stringify(data) },
+      }));
+    });
+
+    it('should log sent messages by id', async () => {
+      const client = new WhatsApp({
+        numberId: '1234567890',
+        token: 'token',
+        messageLog: true,
+      });
+
+      await client.sendMessage('15551234567', 'Pick a plan');
+
+      expect(await client.getSentMessage('wamid.sent')).toMatchObject({
+        id: 'wamid.sent',
+        to: '15551234567',
+        payload: { type: 'text', text: { body: 'Pick a plan' } },
+      });
+    });
+
+    it('should not log without the messageLog option', async () => {
+      const client = createClient();
+
+      await client.sendMessage('15551234567', 'Hello');
+
+      expect(await client.getSentMessage('wamid.sent')).toBeUndefined();
+    });
+  });
+
+  describe('media upload', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'whatsapp-media-'));
+      post.mockImplementation(async (url: string) => ({
+        data: url.endsWith('/media')
+          ? { id: 'media_1' }
+          : { messages: [{ id: 'wamid.sent' }] },
+        config: {},
+      }));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    function uploads(): unknown[][] {
+      return post.mock.calls.filter(([url]) => url.endsWith('/media'));
+    }
+
+    it('should upload local files and send the media id', async () => {
+      const file = join(dir, 'invoice.pdf');
+      await writeFile(file, 'PDF content');
+      const client = createClient();
+
+      await client.sendDocument('15551234567', file, 'Your invoice');
+
+      expect(uploads()).toHaveLength(1);
+      expect(post.mock.calls[1][1]).toMatchObject({
+        type: 'document',
+        document: { id: 'media_1', caption: 'Your invoice' },
+      });
+    });
+
+    it('should reuse cached uploads of the same content', async () => {
+      const client = createClient();
+      const image = Buffer.from('PNG content');
+
+      await client.sendImage('15551234567', image, undefined, {
+        fileName: 'a.png',
+      });
+      await client.sendImage(
+        '15551234567',
+        Readable.from([Buffer.from('PNG content')]),
+        undefined,
+        { mimeType: 'image/png' }
+      );
+
+      expect(uploads()).toHaveLength(1);
+    });
+
+    it('should not upload URLs and media ids', async () => {
+      const client = createClient();
+
+      await client.sendImage('15551234567', 'https://example.com/a.jpg');
+      await client.sendImage('15551234567', '1234567890123');
+
+      expect(uploads()).toHaveLength(0);
+    });
+
+    it('should reject oversized files and streams without reading them', async () => {
+      const file = join(dir, 'huge.png');
+      await writeFile(file, '');
+      await truncate(file, 6 * 1024 * 1024);
+      const client = createClient();
+
+      await expect(client.sendImage('15551234567', file)).rejects.toThrow(
+        MediaValidationError
+      );
+
+      let chunks = 0;
+      const endless = Readable.from(
+        (async function* () {
+          for (;;) {
+            chunks++;
+            yield Buffer.alloc(1024 * 1024);
+          }
+        })()
+      );
+      await expect(
+        client.sendImage('15551234567', endless, undefined, {
+          mimeType: 'image/png',
+        })
+      ).rejects.toThrow(MediaValidationError);
+
+      expect(chunks).toBeLessThan(10);
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should require a MIME type it can detect', async () => {
+      await expect(
+        createClient().uploadMedia(Buffer.from('data'))
+      ).rejects.toThrow('Cannot detect the MIME type');
+      await expect(
+        createClient().uploadMedia(Buffer.from('data'), {
+          fileName: 'notes.xyz',
+        })
+      ).rejects.toMatchObject({
+        name: 'MediaValidationError',
+        size: 4,
+        fileName: 'notes.xyz',
+      });
+    });
+  });
+
+  describe('media types', () => {
+    beforeEach(() => {
+      post.mockImplementation(async (url: string) => ({
+        data: url.endsWith('/media')
+          ? { id: 'media_1' }
+          : { messages: [{ id: 'wamid.sent' }] },
+        config: {},
+      }));
+    });
+
+    it('should infer the media type instead of always sending images', async () => {
+      const client = createClient();
+
+      await client.sendMediaMessage('15551234567', Buffer.from('mp4'), {
+        mimeType: 'video/mp4',
+        caption: 'Clip',
+      });
+      await client.sendMediaMessage(
+        '15551234567',
+        'https://example.com/voice.ogg?v=1'
+      );
+      await client.sendImage('15551234567', 'www.example.com/cat.jpg#top');
+
+      expect(post.mock.calls[1][1]).toMatchObject({
+        type: 'video',
+        video: { id: 'media_1', caption: 'Clip' },
+      });
+      expect(post.mock.calls[2][1]).toMatchObject({
+        type: 'audio',
+        audio: { link: 'https://example.com/voice.ogg?v=1' },
+      });
+      expect(post.mock.calls[3][1]).toMatchObject({
+        type: 'image',
+        image: { link: 'www.example.com/cat.jpg#top' },
+      });
+    });
+
+    it('should send webp images as stickers without caption', async () => {
+      await createClient().sendSticker('15551234567', Buffer.alloc(1024), {
+        fileName: 'smile.webp',
+        caption: 'ignored',
+      });
+
+      expect(post.mock.calls[1][1]).toMatchObject({ type: 'sticker' });
+      expect(post.mock.calls[1][1].sticker).toEqual({ id: 'media_1' });
+    });
+
+    it('should reject invalid media before any request', async () => {
+      const client = createClient();
+
+      await expect(
+        client.sendImage('15551234567', Buffer.alloc(6 * 1024 * 1024), '', {
+          mimeType: 'image/png',
+        })
+      ).rejects.toThrow(MediaValidationError);
+      await expect(
+        client.sendVideo('15551234567', 'https://example.com/clip.gif')
+      ).rejects.toThrow(MediaValidationError);
+      await expect(
+        client.sendMediaMessage('15551234567', Buffer.from('gif'), {
+          fileName: 'a.gif',
+        })
+      ).rejects.toThrow('image/gif is not a supported media type');
+
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for Message Stores
+ */
+
+import { MemoryMessageStore } from '../src/MessageStore';
+import type { SentMessage } from '../src/types';
+
+function sent(id: string): SentMessage {
+  return { id, to: '15551234567', payload: { type: 'text' }, timestamp: 0 };
+}
+
+describe('MemoryMessageStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return stored messages by id', async () => {
+    const store = new MemoryMessageStore();
+    await store.set(sent('wamid.1'));
+
+    expect(await store.get('wamid.1')).toEqual(sent('wamid.1'));
+    expect(await store.get('wamid.2')).toBeUndefined();
+  });
+
+  it('should forget messages after the TTL', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryMessageStore({ ttl: 1000 });
+
+    await store.set(sent('wamid.1'));
+    jest.advanceTimersByTime(1001);
+
+    expect(await store.get('wamid.1')).toBeUndefined();
+  });
+
+  it('should evict the oldest messages beyond the size limit', async () => {
+    const store = new MemoryMessageStore({ maxSize: 2 });
+
+    await store.set(sent('a'));
+    await store.set(sent('b'));
+    await store.set(sent('c'));
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+});
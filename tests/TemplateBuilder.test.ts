@@ -0,0 +1,171 @@
+/**
+ * Tests for the template builder
+ */
+
+import axios from 'axios';
+import { TemplateBuilder } from '../src/TemplateBuilder';
+import { WhatsApp } from '../src/WhatsApp';
+
+describe('TemplateBuilder', () => {
+  it('should build header, body and button components', () => {
+    const template = new TemplateBuilder('order_shipped', 'pt_BR')
+      .setHeaderDocument('https://example.com/invoice.pdf', 'invoice.pdf')
+      .addBodyText('Ana')
+      .addBodyCurrency(42.5, 'USD', '$42.50')
+      .addBodyDateTime('January 31, 2025')
+      .addQuickReplyButton(2, 'STOP')
+      .addUrlButton(0, 'orders/1234');
+
+    expect(template.toJSON()).toEqual({
+      name: 'order_shipped',
+      language: { code: 'pt_BR' },
+      components: [
+        {
+          type: 'header',
+          parameters: [
+            {
+              type: 'document',
+              document: {
+                link: 'https://example.com/invoice.pdf',
+                filename: 'invoice.pdf',
+              },
+            },
+          ],
+        },
+        {
+          type: 'body',
+          parameters: [
+            { type: 'text', text: 'Ana' },
+            {
+              type: 'currency',
+              currency: {
+                fallback_value: '$42.50',
+                code: 'USD',
+                amount_1000: 42500,
+              },
+            },
+            {
+              type: 'date_time',
+              date_time: { fallback_value: 'January 31, 2025' },
+            },
+          ],
+        },
+        {
+          type: 'button',
+          sub_type: 'url',
+          index: '0',
+          parameters: [{ type: 'text', text: 'orders/1234' }],
+        },
+        {
+          type: 'button',
+          sub_type: 'quick_reply',
+          index: '2',
+          parameters: [{ type: 'payload', payload: 'STOP' }],
+        },
+      ],
+    });
+  });
+
+  it('should build copy code, flow and location components', () => {
+    const components = new TemplateBuilder('promo')
+      .setHeaderLocation(38.72, -9.14, 'Store')
+      .addBodyText('Ana', 'customer_name')
+      .addCopyCodeButton(0, 'SAVE20')
+      .addFlowButton(1, { flowToken: 'token_1', flowActionData: { a: 1 } })
+      .build();
+
+    expect(components).toEqual([
+      {
+        type: 'header',
+        parameters: [
+          {
+            type: 'location',
+            location: { latitude: '38.72', longitude: '-9.14', name: 'Store' },
+          },
+        ],
+      },
+      {
+        type: 'body',
+        parameters: [
+          { type: 'text', text: 'Ana', parameter_name: 'customer_name' },
+        ],
+      },
+      {
+        type: 'button',
+        sub_type: 'copy_code',
+        index: '0',
+        parameters: [{ type: 'coupon_code', coupon_code: 'SAVE20' }],
+      },
+      {
+        type: 'button',
+        sub_type: 'flow',
+        index: '1',
+        parameters: [
+          {
+            type: 'action',
+            action: { flow_token: 'token_1', flow_action_data: { a: 1 } },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should validate parameters', () => {
+    const template = new TemplateBuilder('t');
+
+    expect(() => template.setHeaderText('x'.repeat(61))).toThrow(
+      '60 characters or less'
+    );
+    expect(() => template.addBodyText('line\nbreak')).toThrow('newlines');
+    expect(() => template.addBodyText('')).toThrow('cannot be empty');
+    expect(() => template.addBodyCurrency(1, 'usd')).toThrow('ISO 4217');
+    expect(() => template.addCopyCodeButton(0, 'x'.repeat(16))).toThrow(
+      'Coupon code'
+    );
+    expect(() => template.addQuickReplyButton(10, 'A')).toThrow('from 0 to 9');
+    expect(() => template.addUrlButton(-1, 'a')).toThrow('from 0 to 9');
+  });
+
+  it('should reject duplicate headers and buttons', () => {
+    const template = new TemplateBuilder('t')
+      .setHeaderImage('1234567890')
+      .addQuickReplyButton(0, 'A');
+
+    expect(() => template.setHeaderVideo('1234')).toThrow('already set');
+    expect(() => template.addUrlButton(0, 'b')).toThrow('already set');
+  });
+
+  it('should not mix named and positional body parameters', () => {
+    const template = new TemplateBuilder('t')
+      .addBodyText('Ana', 'name')
+      .addBodyText('Bob');
+
+    expect(() => template.build()).toThrow('all named or positional');
+    expect(() => template.addBodyText('x', 'name')).toThrow('already set');
+    expect(() => template.addBodyText('x', 'Name')).toThrow('lowercase');
+  });
+
+  it('should be sent as built', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+    try {
+      const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+      const template = new TemplateBuilder('welcome', 'es')
+        .setHeaderText('Ana')
+        .addBodyCurrency(9.99, 'EUR');
+
+      await client.sendTemplateMessage('15551234567', template);
+
+      expect(post.mock.calls[0][1]).toMatchObject({
+        type: 'template',
+        template: template.toJSON(),
+      });
+      expect(template.build()[1].parameters?.[0].currency).toEqual({
+        fallback_value: '9.99 EUR',
+        code: 'EUR',
+        amount_1000: 9990,
+      });
+    } finally {
+      post.mockRestore();
+    }
+  });
+});
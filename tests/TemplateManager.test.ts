@@ -0,0 +1,284 @@
+/**
+ * Tests for message template management
+ */
+
+import axios from 'axios';
+import { TemplateManager, validateTemplate } from '../src/TemplateManager';
+import { TemplateValidationError } from '../src/errors';
+import { WhatsApp } from '../src/WhatsApp';
+import type { CreateTemplateRequest } from '../src/types';
+
+const BASE = 'https://graph.facebook.com/v21.0';
+
+const orderShipped: CreateTemplateRequest = {
+  name: 'order_shipped',
+  language: 'en_US',
+  category: 'UTILITY',
+  components: [
+    {
+      type: 'HEADER',
+      format: 'TEXT',
+      text: 'Order {{1}}',
+      example: { header_text: ['#1234'] },
+    },
+    {
+      type: 'BODY',
+      text: 'Hi {{1}}, your order {{2}} is on its way.',
+      example: { body_text: [['Ana', '#1234']] },
+    },
+    { type: 'FOOTER', text: 'Reply STOP to opt out' },
+    {
+      type: 'BUTTONS',
+      buttons: [
+        {
+          type: 'URL',
+          text: 'Track',
+          url: 'https://example.com/track/{{1}}',
+          example: ['https://example.com/track/1234'],
+        },
+        { type: 'QUICK_REPLY', text: 'Stop' },
+      ],
+    },
+  ],
+};
+
+function validationErrors(template: CreateTemplateRequest): string[] {
+  try {
+    validateTemplate(template);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(TemplateValidationError);
+    return (error as TemplateValidationError).errors;
+  }
+}
+
+describe('validateTemplate', () => {
+  it('should accept a valid template', () => {
+    expect(validationErrors(orderShipped)).toEqual([]);
+  });
+
+  it('should check names, categories and required components', () => {
+    expect(
+      validationErrors({
+        name: 'Order Shipped',
+        language: '',
+        category: 'PROMO' as any,
+        components: [{ type: 'FOOTER', text: 'Thanks' }],
+      })
+    ).toEqual([
+      'Template name must be 1 to 512 lowercase letters, digits and underscores',
+      'Template language is required',
+      'Template category must be one of AUTHENTICATION, MARKETING, UTILITY',
+      'Templates need a BODY component',
+    ]);
+  });
+
+  it('should check variables and examples', () => {
+    expect(
+      validationErrors({
+        ...orderShipped,
+        components: [
+          { type: 'BODY', text: 'Hi {{1}}, order {{3}} shipped.' },
+          { type: 'FOOTER', text: 'Ref {{1}}' },
+        ],
+      })
+    ).toEqual([
+      'Body variables must be numbered {{1}}, {{2}}, ... in order',
+      'Footer text cannot have variables',
+    ]);
+
+    expect(
+      validationErrors({
+        ...orderShipped,
+        components: [{ type: 'BODY', text: '{{1}} shipped' }],
+      })
+    ).toEqual([
+      'Body text cannot start or end with a variable',
+      'Body has 1 variables but 0 examples',
+    ]);
+  });
+
+  it('should check named variables', () => {
+    const template: CreateTemplateRequest = {
+      ...orderShipped,
+      parameter_format: 'NAMED',
+      components: [
+        {
+          type: 'BODY',
+          text: 'Hi {{first_name}}, order {{order_id}} shipped.',
+          example: {
+            body_text_named_params: [
+              { param_name: 'first_name', example: 'Ana' },
+            ],
+          },
+        },
+      ],
+    };
+
+    expect(validationErrors(template)).toEqual([
+      'Body needs examples for order_id',
+    ]);
+  });
+
+  it('should check buttons', () => {
+    expect(
+      validationErrors({
+        ...orderShipped,
+        components: [
+          { type: 'BODY', text: 'Your code is ready.' },
+          {
+            type: 'BUTTONS',
+            buttons: [
+              { type: 'QUICK_REPLY', text: 'x'.repeat(26) },
+              { type: 'URL', text: 'Open', url: 'https://example.com/{{1}}/a' },
+              { type: 'COPY_CODE', example: 'x'.repeat(16) },
+              { type: 'FLOW', text: 'Book' },
+            ],
+          },
+        ],
+      })
+    ).toEqual([
+      'Button 0 text must be 1 to 25 characters',
+      'Button 1 URL may only end with a {{1}} variable',
+      'Button 2 example code must be 1 to 15 characters',
+      'Button 3 needs exactly one of flow_id, flow_name or flow_json',
+    ]);
+  });
+
+  it('should allow authentication bodies without text', () => {
+    expect(
+      validationErrors({
+        name: 'login_code',
+        language: 'en_US',
+        category: 'AUTHENTICATION',
+        components: [
+          { type: 'BODY', add_security_recommendation: true },
+          {
+            type: 'BUTTONS',
+            buttons: [{ type: 'OTP', otp_type: 'COPY_CODE' }],
+          },
+        ],
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('TemplateManager', () => {
+  let get: jest.SpyInstance;
+  let post: jest.SpyInstance;
+  let del: jest.SpyInstance;
+  let manager: TemplateManager;
+
+  beforeEach(() => {
+    get = jest.spyOn(axios, 'get');
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ data: {} });
+    del = jest
+      .spyOn(axios, 'delete')
+      .mockResolvedValue({ data: { success: true } });
+    manager = new TemplateManager({ wabaId: 'waba_1', token: 'token' });
+  });
+
+  afterEach(() => {
+    get.mockRestore();
+    post.mockRestore();
+    del.mockRestore();
+  });
+
+  it('should list templates with filters and follow paging', async () => {
+    get
+      .mockResolvedValueOnce({
+        data: {
+          data: [{ id: '1', name: 'a' }],
+          paging: { cursors: { after: 'c1' }, next: 'https://next' },
+        },
+      })
+      .mockResolvedValueOnce({
+        data: { data: [{ id: '2', name: 'b' }], paging: { cursors: {} } },
+      });
+
+    const templates = await manager.listAll({
+      status: 'APPROVED',
+      fields: ['name', 'status'],
+      limit: 1,
+    });
+
+    expect(templates.map((t) => t.id)).toEqual(['1', '2']);
+    expect(get.mock.calls[0][0]).toBe(`${BASE}/waba_1/message_templates`);
+    expect(get.mock.calls[0][1].params).toEqual({
+      status: 'APPROVED',
+      limit: 1,
+      fields: 'name,status',
+    });
+    expect(get.mock.calls[1][1].params.after).toBe('c1');
+  });
+
+  it('should get templates by id and exact name', async () => {
+    get.mockResolvedValueOnce({ data: { id: '42', name: 'welcome' } });
+    get.mockResolvedValueOnce({
+      data: {
+        data: [
+          { id: '1', name: 'welcome', language: 'en_US' },
+          { id: '2', name: 'welcome_back', language: 'en_US' },
+          { id: '3', name: 'welcome', language: 'pt_BR' },
+        ],
+      },
+    });
+
+    expect((await manager.getById('42')).name).toBe('welcome');
+    expect(get.mock.calls[0][0]).toBe(`${BASE}/42`);
+
+    const templates = await manager.getByName('welcome');
+    expect(templates.map((t) => t.id)).toEqual(['1', '3']);
+  });
+
+  it('should validate before creating', async () => {
+    post.mockResolvedValue({
+      data: { id: '99', status: 'PENDING', category: 'UTILITY' },
+    });
+
+    await expect(
+      manager.create({ ...orderShipped, name: 'Bad Name' })
+    ).rejects.toThrow(TemplateValidationError);
+    expect(post).not.toHaveBeenCalled();
+
+    const created = await manager.create(orderShipped);
+    expect(created.id).toBe('99');
+    expect(post).toHaveBeenCalledWith(
+      `${BASE}/waba_1/message_templates`,
+      orderShipped,
+      expect.anything()
+    );
+  });
+
+  it('should edit templates', async () => {
+    await expect(
+      manager.edit('99', { components: [{ type: 'FOOTER', text: 'x' }] })
+    ).rejects.toThrow('Templates need a BODY component');
+
+    await manager.edit('99', { category: 'MARKETING' });
+    expect(post).toHaveBeenCalledWith(
+      `${BASE}/99`,
+      { category: 'MARKETING' },
+      expect.anything()
+    );
+  });
+
+  it('should delete by name or id', async () => {
+    await manager.deleteByName('order_shipped');
+    await manager.deleteById('99', 'order_shipped');
+
+    expect(del.mock.calls[0][1].params).toEqual({ name: 'order_shipped' });
+    expect(del.mock.calls[1][1].params).toEqual({
+      hsm_id: '99',
+      name: 'order_shipped',
+    });
+  });
+
+  it('should be available on clients with a WABA id', () => {
+    const client = new WhatsApp({ numberId: '1', token: 't', version: 22 });
+    expect(() => client.templates).toThrow('wabaId');
+
+    client.wabaId = 'waba_2';
+    expect(client.templates.wabaId).toBe('waba_2');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for webhook verification and signature checks
+ */
+
+import { verifyWebhook, verifySignature } from '../src/Webhook';
+import { WhatsApp } from '../src/WhatsApp';
+import { InvalidSignatureError } from '../src/errors';
+
+describe('verifyWebhook', () => {
+  it('should return the challenge for a matching token', () => {
+    const response = verifyWebhook(
+      {
+        'hub.mode': 'subscribe',
+        'hub.verify_token': 'secret',
+        'hub.challenge': '1158201444',
+      },
+      'secret'
+    );
+    expect(response).toEqual({ status: 200, body: '1158201444' });
+  });
+
+  it('should accept URLSearchParams', () => {
+    const query = new URLSearchParams(
+      'hub.mode=subscribe&hub.verify_token=secret&hub.challenge=42'
+    );
+    expect(verifyWebhook(query, 'secret').body).toBe('42');
+  });
+
+  it('should reject when no verify token is configured', () => {
+    const response = verifyWebhook({
+      'hub.mode': 'subscribe',
+      'hub.verify_token': '',
+      'hub.challenge': '42',
+    });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('verifySignature', () => {
+  // RFC 4231 test case 2
+  const rfcBody = 'what do ya want for nothing?';
+  const rfcSignature =
+    'sha256=5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843';
+
+  const body = '{"object":"whatsapp_business_account","entry":[]}';
+  const signature =
+    'sha256=c236c758c9b2bd40b388a550eeca09eaca72384dd0aa5e7c31d19cddac5bba46';
+
+  it('should accept known HMAC-SHA256 vectors', () => {
+    expect(verifySignature(rfcBody, rfcSignature, 'Jefe')).toBe(true);
+    expect(verifySignature(body, signature, 'app_secret')).toBe(true);
+    expect(verifySignature(Buffer.from(body), signature, 'app_secret')).toBe(
+      true
+    );
+  });
+
+  it('should reject a signature made with another secret', () => {
+    expect(verifySignature(body, signature, 'other_secret')).toBe(false);
+  });
+
+  it('should reject a tampered body', () => {
+    expect(verifySignature(body + ' ', signature, 'app_secret')).toBe(false);
+  });
+
+  it('should reject missing or malformed headers', () => {
+    expect(verifySignature(body, undefined, 'app_secret')).toBe(false);
+    expect(verifySignature(body, 'sha1=abcd', 'app_secret')).toBe(false);
+    expect(verifySignature(body, 'sha256=abcd', 'app_secret')).toBe(false);
+  });
+});
+
+describe('WhatsApp.processRawUpdate', () => {
+  const body = '{"object":"whatsapp_business_account","entry":[]}';
+
+  it('should throw InvalidSignatureError for a bad signature', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      appSecret: 'app_secret',
+    });
+
+    await expect(
+      client.processRawUpdate(body, 'sha256=00')
+    ).rejects.toBeInstanceOf(InvalidSignatureError);
+  });
+
+  it('should process a correctly signed body', async () => {
+    const client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      appSecret: 'app_secret',
+    });
+
+    await expect(
+      client.processRawUpdate(
+        body,
+        'sha256=c236c758c9b2bd40b388a550eeca09eaca72384dd0aa5e7c31d19cddac5bba46'
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('should skip verification without an app secret', async () => {
+    const client = new WhatsApp({ numberId: '1234567890', token: 'token' });
+    await expect(client.processRawUpdate(body)).resolves.toBeUndefined();
+  });
+});
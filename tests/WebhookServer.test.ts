@@ -0,0 +1,122 @@
+/**
+ * Tests for the Webhook Server
+ */
+
+import { WhatsApp } from '../src/WhatsApp';
+import type { WebhookServer } from '../src/WebhookServer';
+import type { WebhookPayload } from '../src/types';
+
+const payload: WebhookPayload = {
+  object: 'whatsapp_business_account',
+  entry: [
+    {
+      id: 'waba_id',
+      changes: [
+        {
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: {
+              display_phone_number: '15550000000',
+              phone_number_id: '1234567890',
+            },
+            contacts: [{ profile: { name: 'John' }, wa_id: '15551234567' }],
+            messages: [
+              {
+                from: '15551234567',
+                id: 'wamid.1',
+                timestamp: '1700000000',
+                type: 'text',
+                text: { body: 'hello' },
+              },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('WebhookServer', () => {
+  let client: WhatsApp;
+  let server: WebhookServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    client = new WhatsApp({
+      numberId: '1234567890',
+      token: 'token',
+      markAsRead: false,
+    });
+    server = await client.listen({ port: 0, verifyToken: 'secret' });
+    baseUrl = `http://127.0.0.1:${server.port}/webhook`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should answer the verification handshake', async () => {
+    const response = await fetch(
+      `${baseUrl}?hub.mode=subscribe&hub.verify_token=secret&hub.challenge=42`
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('42');
+  });
+
+  it('should reject a wrong verify token', async () => {
+    const response = await fetch(
+      `${baseUrl}?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=42`
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it('should respond 404 for other paths', async () => {
+    const response = await fetch(`http://127.0.0.1:${server.port}/other`);
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject invalid JSON', async () => {
+    const response = await fetch(baseUrl, { method: 'POST', body: '{oops' });
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject bodies over the size limit', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      body: 'x'.repeat(1024 * 1024 + 1),
+    });
+    expect(response.status).toBe(413);
+  });
+
+  it('should acknowledge payloads and dispatch them to handlers', async () => {
+    const received: string[] = [];
+    client.onMessage(async (update) => {
+      received.push(update.messageText || '');
+    });
+
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    expect(response.status).toBe(200);
+
+    await client.drain();
+    expect(received).toEqual(['hello']);
+  });
+
+  it('should wait for queued updates when stopping', async () => {
+    let finished = false;
+    client.onMessage(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      finished = true;
+    });
+
+    await fetch(baseUrl, { method: 'POST', body: JSON.stringify(payload) });
+    await server.stop();
+
+    expect(finished).toBe(true);
+    expect(server.listening).toBe(false);
+  });
+});
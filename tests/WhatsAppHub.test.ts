@@ -0,0 +1,134 @@
+/**
+ * Tests for the WhatsApp Hub
+ */
+
+import { WhatsAppHub } from '../src/WhatsAppHub';
+import type { WebhookPayload, WebhookValue } from '../src/types';
+
+function value(phoneNumberId: string, id: string, body: string): WebhookValue {
+  return {
+    messaging_product: 'whatsapp',
+    metadata: {
+      display_phone_number: `+${phoneNumberId}`,
+      phone_number_id: phoneNumberId,
+    },
+    messages: [
+      {
+        from: '111',
+        id,
+        timestamp: '1700000000',
+        type: 'text',
+        text: { body },
+      },
+    ],
+  };
+}
+
+function payload(...values: WebhookValue[]): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: 'waba_id',
+        changes: values.map((v) => ({ field: 'messages', value: v })),
+      },
+    ],
+  };
+}
+
+function createHub(): WhatsAppHub {
+  return new WhatsAppHub({
+    numbers: [
+      { numberId: '1111', token: 'token_a', markAsRead: false },
+      { numberId: '2222', token: 'token_b', markAsRead: false },
+    ],
+  });
+}
+
+describe('WhatsAppHub', () => {
+  it('should route each change to the client of its number', async () => {
+    const hub = createHub();
+    const received: string[] = [];
+    hub.use((client) => {
+      client.onMessage(async (update) => {
+        received.push(`${update.bot.token}:${update.phoneNumberId}`);
+      });
+    });
+
+    await hub.processUpdate(
+      payload(value('1111', 'wamid.1', 'a'), value('2222', 'wamid.2', 'b'))
+    );
+
+    expect(received.sort()).toEqual(['token_a:1111', 'token_b:2222']);
+  });
+
+  it('should apply shared handlers to numbers added later', async () => {
+    const hub = new WhatsAppHub();
+    const received: string[] = [];
+    hub.use((client) => {
+      client.onMessage(async (update) => {
+        received.push(update.displayPhoneNumber);
+      });
+    });
+
+    hub.addNumber({ numberId: '3333', token: 'token_c', markAsRead: false });
+    await hub.processUpdate(payload(value('3333', 'wamid.1', 'c')));
+
+    expect(received).toEqual(['+3333']);
+  });
+
+  it('should support handlers scoped to one number', async () => {
+    const hub = createHub();
+    const received: string[] = [];
+    hub.getClient('2222')!.onMessage(async (update) => {
+      received.push(update.messageText || '');
+    });
+
+    await hub.processUpdate(
+      payload(value('1111', 'wamid.1', 'a'), value('2222', 'wamid.2', 'b'))
+    );
+
+    expect(received).toEqual(['b']);
+  });
+
+  it('should ignore unregistered numbers', async () => {
+    const hub = createHub();
+    await expect(
+      hub.processUpdate(payload(value('9999', 'wamid.1', 'x')))
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject duplicate numbers', () => {
+    const hub = createHub();
+    expect(() => hub.addNumber({ numberId: '1111', token: 'token' })).toThrow(
+      'Phone number 1111 is already registered'
+    );
+  });
+});
+
+describe('WhatsAppHub webhook fields', () => {
+  it('should handle account level fields once', async () => {
+    const hub = createHub();
+    const alerts: string[] = [];
+    hub.onWebhookField('account_alerts', (alert) => {
+      alerts.push(alert.alert_type);
+    });
+
+    await hub.processUpdate({
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'waba_id',
+          changes: [
+            {
+              field: 'account_alerts',
+              value: { alert_type: 'OBA_APPROVED' } as any,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(alerts).toEqual(['OBA_APPROVED']);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Tests for Framework Adapters
+ */
+
+import { createHmac } from 'crypto';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { WhatsApp } from '../src/WhatsApp';
+import {
+  expressMiddleware,
+  koaMiddleware,
+  fastifyPlugin,
+  fetchHandler,
+} from '../src/adapters';
+import type { KoaLikeContext } from '../src/adapters';
+
+const body = JSON.stringify({
+  object: 'whatsapp_business_account',
+  entry: [
+    {
+      id: 'waba_id',
+      changes: [
+        {
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: {
+              display_phone_number: '15550000000',
+              phone_number_id: '1234567890',
+            },
+            messages: [
+              {
+                from: '15551234567',
+                id: 'wamid.1',
+                timestamp: '1700000000',
+                type: 'text',
+                text: { body: 'hello' },
+              },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+});
+
+const signature = `sha256=${createHmac('sha256', 'app_secret')
+  .update(body)
+  .digest('hex')}`;
+
+const verifyQuery =
+  'hub.mode=subscribe&hub.verify_token=secret&hub.challenge=42';
+
+function createClient(received: string[]): WhatsApp {
+  const client = new WhatsApp({
+    numberId: '1234567890',
+    token: 'token',
+    markAsRead: false,
+    appSecret: 'app_secret',
+  });
+  client.onMessage(async (update) => {
+    received.push(update.messageText || '');
+  });
+  return client;
+}
+
+describe('expressMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: string[];
+  let client: WhatsApp;
+
+  beforeEach(async () => {
+    received = [];
+    client = createClient(received);
+    const middleware = expressMiddleware(client, { verifyToken: 'secret' });
+    server = createServer((req, res) => middleware(req, res));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should answer the verification handshake', async () => {
+    const response = await fetch(`${baseUrl}/webhook?${verifyQuery}`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('42');
+  });
+
+  it('should accept signed payloads', async () => {
+    const response = await fetch(`${baseUrl}/webhook`, {
+      method: 'POST',
+      headers: { 'X-Hub-Signature-256': signature },
+      body,
+    });
+    expect(response.status).toBe(200);
+
+    await client.drain();
+    expect(received).toEqual(['hello']);
+  });
+
+  it('should reject unsigned payloads', async () => {
+    const response = await fetch(`${baseUrl}/webhook`, {
+      method: 'POST',
+      body,
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('should answer 413 for bodies over the size limit', async () => {
+    const response = await fetch(`${baseUrl}/webhook`, {
+      method: 'POST',
+      body: 'x'.repeat(1024 * 1024 + 1),
+    });
+    expect(response.status).toBe(413);
+  });
+
+  it('should pass errors to next', async () => {
+    const req = Object.assign(
+      new Readable({
+        read(): void {
+          this.destroy(new Error('aborted'));
+        },
+      }),
+      { method: 'POST', url: '/webhook', headers: {} }
+    );
+    const next = jest.fn();
+
+    await expressMiddleware(client)(req as any, {} as any, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('aborted'));
+  });
+});
+
+describe('koaMiddleware', () => {
+  function createContext(
+    method: string,
+    options: Partial<KoaLikeContext> = {}
+  ): KoaLikeContext {
+    return {
+      method,
+      path: '/webhook',
+      query: {},
+      headers: {},
+      req: Readable.from([Buffer.from(body)]) as any,
+      request: {},
+      status: 404,
+      body: undefined,
+      type: '',
+      ...options,
+    };
+  }
+
+  it('should answer the verification handshake', async () => {
+    const middleware = koaMiddleware(createClient([]), {
+      verifyToken: 'secret',
+    });
+    const ctx = createContext('GET', {
+      query: Object.fromEntries(new URLSearchParams(verifyQuery)),
+    });
+
+    await middleware(ctx, async () => undefined);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toBe('42');
+  });
+
+  it('should read the raw body from the request stream', async () => {
+    const received: string[] = [];
+    const client = createClient(received);
+    const middleware = koaMiddleware(client);
+    const ctx = createContext('POST', {
+      headers: { 'x-hub-signature-256': signature },
+    });
+
+    await middleware(ctx, async () => undefined);
+    await client.drain();
+
+    expect(ctx.status).toBe(200);
+    expect(received).toEqual(['hello']);
+  });
+
+  it('should pass on other paths', async () => {
+    const middleware = koaMiddleware(createClient([]), { path: '/webhook' });
+    const ctx = createContext('GET', { path: '/health' });
+    const next = jest.fn(async () => undefined);
+
+    await middleware(ctx, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(ctx.status).toBe(404);
+  });
+});
+
+describe('fastifyPlugin', () => {
+  it('should register raw JSON parsing and webhook routes', async () => {
+    const received: string[] = [];
+    const client = createClient(received);
+    const routes: Record<string, any> = {};
+    const parsers: string[] = [];
+    const limits: number[] = [];
+
+    await fastifyPlugin(client, { verifyToken: 'secret' })({
+      addContentTypeParser: (contentType) => parsers.push(contentType),
+      get: (path, handler) => (routes[`GET ${path}`] = handler),
+      post: (path, routeOptions, handler) => {
+        limits.push(routeOptions.bodyLimit);
+        routes[`POST ${path}`] = handler;
+      },
+    });
+
+    expect(parsers).toEqual(['application/json']);
+    expect(limits).toEqual([1024 * 1024]);
+
+    const sent: Array<{ status: number; body: string }> = [];
+    const reply = {
+      code: (status: number) => ({
+        type: () => ({
+          send: (text: string) => sent.push({ status, body: text }),
+        }),
+      }),
+    };
+
+    await routes['POST /webhook'](
+      {
+        method: 'POST',
+        query: {},
+        headers: { 'x-hub-signature-256': signature },
+        body: Buffer.from(body),
+      },
+      reply
+    );
+    await client.drain();
+
+    expect(sent).toEqual([{ status: 200, body: 'EVENT_RECEIVED' }]);
+    expect(received).toEqual(['hello']);
+  });
+});
+
+describe('fetchHandler', () => {
+  it('should answer the verification handshake', async () => {
+    const handler = fetchHandler(createClient([]), { verifyToken: 'secret' });
+    const response = await handler(
+      new Request(`https://example.com/webhook?${verifyQuery}`)
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('42');
+  });
+
+  it('should process payloads before responding when awaitProcessing is set', async () => {
+    const received: string[] = [];
+    const handler = fetchHandler(createClient(received), {
+      awaitProcessing: true,
+    });
+
+    const response = await handler(
+      new Request('https://example.com/webhook', {
+        method: 'POST',
+        headers: { 'X-Hub-Signature-256': signature },
+        body,
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(received).toEqual(['hello']);
+  });
+
+  it('should reject bad signatures', async () => {
+    const handler = fetchHandler(createClient([]));
+    const response = await handler(
+      new Request('https://example.com/webhook', {
+        method: 'POST',
+        headers: { 'X-Hub-Signature-256': 'sha256=00' },
+        body,
+      })
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('should answer 413 for bodies over the size limit', async () => {
+    const handler = fetchHandler(createClient([]), { maxBodySize: 10 });
+
+    const declared = await handler(
+      new Request('https://example.com/webhook', { method: 'POST', body })
+    );
+    expect(declared.status).toBe(413);
+
+    const streamed = await handler(
+      new Request('https://example.com/webhook', {
+        method: 'POST',
+        body: Readable.toWeb(Readable.from([Buffer.from(body)])) as any,
+        duplex: 'half',
+      } as RequestInit)
+    );
+    expect(streamed.status).toBe(413);
+  });
+
+  it('should respond 404 for other paths when path is set', async () => {
+    const handler = fetchHandler(createClient([]), { path: '/webhook' });
+    const response = await handler(new Request('https://example.com/other'));
+    expect(response.status).toBe(404);
+  });
+});
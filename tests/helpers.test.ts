@@ -8,6 +8,8 @@ import {
   formatPhoneNumber,
   isLink,
   getExtensionFromMimeType,
+  getOrderTotal,
+  getMimeTypeFromExtension,
 } from '../src/utils/helpers';
 
 describe('keysExist', () => {
@@ -87,3 +89,41 @@ describe('getExtensionFromMimeType', () => {
     expect(getExtensionFromMimeType('unknown/type')).toBe('.bin');
   });
 });
+
+describe('getOrderTotal', () => {
+  it('should sum item prices times quantities', () => {
+    expect(
+      getOrderTotal({
+        catalog_id: 'catalog_1',
+        product_items: [
+          {
+            product_retailer_id: 'a',
+            quantity: 3,
+            item_price: 0.1,
+            currency: 'USD',
+          },
+          {
+            product_retailer_id: 'b',
+            quantity: 2,
+            item_price: 12.5,
+            currency: 'USD',
+          },
+        ],
+      })
+    ).toBe(25.3);
+  });
+});
+
+describe('getMimeTypeFromExtension', () => {
+  it('should detect MIME types from file names and paths', () => {
+    expect(getMimeTypeFromExtension('./docs/invoice.PDF')).toBe(
+      'application/pdf'
+    );
+    expect(getMimeTypeFromExtension('photo.jpeg')).toBe('image/jpeg');
+  });
+
+  it('should return undefined for unknown extensions', () => {
+    expect(getMimeTypeFromExtension('archive.zip')).toBeUndefined();
+    expect(getMimeTypeFromExtension('README')).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for the TTL Map
+ */
+
+import { TtlMap } from '../src/utils/ttlMap';
+
+describe('TtlMap', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should forget entries after the TTL', () => {
+    jest.useFakeTimers();
+    const map = new TtlMap<string>(1000, 10);
+
+    map.set('a', '1');
+    jest.advanceTimersByTime(500);
+    expect(map.get('a')).toBe('1');
+
+    jest.advanceTimersByTime(501);
+    expect(map.has('a')).toBe(false);
+    expect(map.size).toBe(0);
+  });
+
+  it('should evict the oldest entries beyond the size limit', () => {
+    const map = new TtlMap<string>(1000, 2);
+
+    map.set('a', '1');
+    map.set('b', '2');
+    map.set('a', '3');
+    map.set('c', '4');
+
+    expect(map.has('b')).toBe(false);
+    expect(map.get('a')).toBe('3');
+    expect(map.get('c')).toBe('4');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for vCard utilities
+ */
+
+import {
+  contactToVCard,
+  escapeVCardValue,
+  parseVCard,
+} from '../src/utils/vcard';
+import type { SharedContact } from '../src/types';
+
+const contact: SharedContact = {
+  name: {
+    formatted_name: 'Jane Doe',
+    first_name: 'Jane',
+    last_name: 'Doe',
+  },
+  phones: [{ phone: '+1 (555) 123-4567', wa_id: '15551234567', type: 'CELL' }],
+  emails: [{ email: 'jane@example.com', type: 'WORK' }],
+  addresses: [
+    {
+      street: '1 Main St, Suite 2',
+      city: 'Springfield',
+      zip: '12345',
+      country: 'USA',
+      type: 'WORK',
+    },
+  ],
+  org: { company: 'Acme', department: 'Sales', title: 'Manager' },
+  urls: [{ url: 'https://example.com', type: 'WORK' }],
+  birthday: '1990-01-31',
+};
+
+describe('escapeVCardValue', () => {
+  it('should escape special characters', () => {
+    expect(escapeVCardValue('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
+
+describe('contactToVCard', () => {
+  it('should create a vCard 3.0', () => {
+    expect(contactToVCard(contact).split('\r\n')).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane Doe',
+      'N:Doe;Jane;;;',
+      'ORG:Acme;Sales',
+      'TITLE:Manager',
+      'TEL;TYPE=CELL;waid=15551234567:+1 (555) 123-4567',
+      'EMAIL;TYPE=WORK,INTERNET:jane@example.com',
+      'ADR;TYPE=WORK:;;1 Main St\\, Suite 2;Springfield;;12345;USA',
+      'URL;TYPE=WORK:https://example.com',
+      'BDAY:1990-01-31',
+      'END:VCARD',
+      '',
+    ]);
+  });
+
+  it('should create a vCard 4.0', () => {
+    const lines = contactToVCard(contact, '4.0').split('\r\n');
+    expect(lines).toContain('VERSION:4.0');
+    expect(lines).toContain(
+      'TEL;VALUE=uri;TYPE=cell;waid=15551234567:tel:+15551234567'
+    );
+    expect(lines).toContain('EMAIL;TYPE=work:jane@example.com');
+    expect(lines).toContain('BDAY:19900131');
+  });
+
+  it('should fall back to the WhatsApp id without a phone', () => {
+    const vcard = contactToVCard({
+      name: { formatted_name: 'Bob' },
+      phones: [{ wa_id: '15550001111' }],
+    });
+    expect(vcard).toContain('TEL;waid=15550001111:+15550001111\r\n');
+  });
+
+  it('should fold long lines', () => {
+    const vcard = contactToVCard({ name: { formatted_name: 'x'.repeat(100) } });
+    const lines = vcard.split('\r\n');
+    expect(lines[2]).toHaveLength(75);
+    expect(lines[3]).toBe(' ' + 'x'.repeat(28));
+  });
+
+  it('should fold by UTF-8 octets without splitting characters', () => {
+    const name = 'Zoë 😀 '.repeat(20).trim();
+    const vcard = contactToVCard({ name: { formatted_name: name } });
+    const lines = vcard.split('\r\n');
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/);
+    }
+    expect(parseVCard(vcard)[0].name.formatted_name).toBe(name);
+  });
+});
+
+describe('parseVCard', () => {
+  it('should read back exported contacts', () => {
+    for (const version of ['3.0', '4.0'] as const) {
+      const [parsed] = parseVCard(contactToVCard(contact, version));
+      expect(parsed).toEqual({
+        ...contact,
+        phones: [
+          {
+            phone: version === '3.0' ? '+1 (555) 123-4567' : '+15551234567',
+            wa_id: '15551234567',
+            type: 'CELL',
+          },
+        ],
+      });
+    }
+  });
+
+  it('should keep a department without company in its position', () => {
+    const vcard = contactToVCard({
+      name: { formatted_name: 'Sales' },
+      org: { department: 'Sales' },
+    });
+
+    expect(vcard).toContain('ORG:;Sales\r\n');
+    expect(parseVCard(vcard)[0].org).toEqual({ department: 'Sales' });
+  });
+
+  it('should parse several cards with folded lines and vCard 2.1 types', () => {
+    const contacts = parseVCard(
+      [
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'N:Doe;John;;;',
+        'item1.TEL;CELL;waid=15550001111:+1 555 000 1111',
+        'NOTE:ignored',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'FN:Help',
+        ' desk',
+        'EMAIL;TYPE=INTERNET,HOME:help@example.com',
+        'END:VCARD',
+      ].join('\n')
+    );
+
+    expect(contacts).toEqual([
+      {
+        name: {
+          formatted_name: 'John Doe',
+          first_name: 'John',
+          last_name: 'Doe',
+        },
+        phones: [
+          { phone: '+1 555 000 1111', wa_id: '15550001111', type: 'CELL' },
+        ],
+      },
+      {
+        name: { formatted_name: 'Helpdesk' },
+        emails: [{ email: 'help@example.com', type: 'HOME' }],
+      },
+    ]);
+  });
+});